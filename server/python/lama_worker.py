@@ -1,12 +1,17 @@
 from __future__ import annotations
 
 import base64
+import importlib.util
 import io
 import json
 import os
+import queue
+import struct
 import sys
+import threading
 import traceback
-from typing import Any
+from dataclasses import dataclass
+from typing import Any, Callable
 
 from PIL import Image
 
@@ -15,7 +20,15 @@ try:
 except Exception:  # noqa: BLE001
     torch = None
 
-from simple_lama_inpainting import SimpleLama
+
+def _apply_thread_limit() -> None:
+    raw = os.environ.get("LAMIVI_TORCH_THREADS", "").strip()
+    if torch is None or not raw.isdigit() or int(raw) < 1:
+        return
+    torch.set_num_threads(int(raw))
+
+
+_apply_thread_limit()
 
 
 def _cuda_available() -> bool:
@@ -49,38 +62,286 @@ def _is_cuda_compat_error(err: Exception) -> bool:
     )
 
 
-def _load_model() -> Any:
-    requested, device, warning = _pick_device()
-    device_arg: Any = device
+REQUESTED_DEVICE, DEVICE, DEVICE_WARNING = _pick_device()
+
+# A loaded model takes an RGB image and an L mask (255 = fill) and returns an RGB image.
+InpaintFn = Callable[[Image.Image, Image.Image], Image.Image]
+
+
+def _load_lama() -> InpaintFn:
+    global DEVICE, DEVICE_WARNING
+    from simple_lama_inpainting import SimpleLama
+
+    device_arg: Any = DEVICE
     try:
-        model = SimpleLama(device=device_arg)
+        return SimpleLama(device=device_arg)
     except TypeError:
-        model = SimpleLama()
+        return SimpleLama()
     except Exception as e:  # noqa: BLE001
-        if device == "cuda" and _is_cuda_compat_error(e):
+        if DEVICE == "cuda" and _is_cuda_compat_error(e):
             cpu_device: Any = "cpu"
             model = SimpleLama(device=cpu_device)
-            warning = (
+            DEVICE = "cpu"
+            DEVICE_WARNING = (
                 "CUDA is available but this GPU/PyTorch combination is not supported by the current runtime. "
                 "Falling back to CPU."
             )
-            return model, requested, "cpu", warning
+            return model
         raise
-    return model, requested, device, warning
 
 
-MODEL, REQUESTED_DEVICE, DEVICE, DEVICE_WARNING = _load_model()
+def _load_iopaint(name: str) -> InpaintFn:
+    import numpy as np
+    from iopaint.model_manager import ModelManager
+    from iopaint.schema import InpaintRequest
+
+    assert torch is not None
+    manager = ModelManager(name=name, device=torch.device(DEVICE))
+
+    def run(image: Image.Image, mask: Image.Image) -> Image.Image:
+        out_bgr = manager(np.array(image), np.array(mask), InpaintRequest())
+        return Image.fromarray(np.ascontiguousarray(out_bgr[:, :, ::-1]).astype(np.uint8))
+
+    return run
+
+
+def _load_opencv(flag_name: str) -> InpaintFn:
+    import cv2
+    import numpy as np
+
+    flag = getattr(cv2, flag_name)
+
+    def run(image: Image.Image, mask: Image.Image) -> Image.Image:
+        bgr = cv2.cvtColor(np.array(image), cv2.COLOR_RGB2BGR)
+        binary = (np.array(mask) > 127).astype(np.uint8) * 255
+        out = cv2.inpaint(bgr, binary, 5, flag)
+        return Image.fromarray(cv2.cvtColor(out, cv2.COLOR_BGR2RGB))
+
+    return run
+
+
+@dataclass(frozen=True)
+class ModelSpec:
+    id: str
+    label: str
+    kind: str  # "neural" models download weights on first load; "classical" ones need none
+    modules: tuple[str, ...]
+    load: Callable[[], InpaintFn]
+
+
+MODEL_SPECS: list[ModelSpec] = [
+    ModelSpec("lama", "LaMa", "neural", ("simple_lama_inpainting",), _load_lama),
+    ModelSpec("mat", "MAT", "neural", ("iopaint", "torch"), lambda: _load_iopaint("mat")),
+    ModelSpec("migan", "MI-GAN", "neural", ("iopaint", "torch"), lambda: _load_iopaint("migan")),
+    ModelSpec("opencv-telea", "OpenCV Telea", "classical", ("cv2", "numpy"), lambda: _load_opencv("INPAINT_TELEA")),
+    ModelSpec("opencv-ns", "OpenCV Navier-Stokes", "classical", ("cv2", "numpy"), lambda: _load_opencv("INPAINT_NS")),
+]
+_SPECS_BY_ID = {spec.id: spec for spec in MODEL_SPECS}
+_loaded_models: dict[str, InpaintFn] = {}
+
+
+def _missing_module(spec: ModelSpec) -> str | None:
+    for name in spec.modules:
+        if importlib.util.find_spec(name) is None:
+            return name
+    return None
+
+
+def _get_model(model_id: str) -> InpaintFn:
+    spec = _SPECS_BY_ID.get(model_id)
+    if spec is None:
+        raise ValueError(f"Unknown model: {model_id}")
+    if model_id not in _loaded_models:
+        missing = _missing_module(spec)
+        if missing:
+            raise ModuleNotFoundError(f"No module named '{missing}' (required by model {model_id})")
+        _loaded_models[model_id] = spec.load()
+    return _loaded_models[model_id]
+
+
+def _describe_models() -> list[dict[str, Any]]:
+    out: list[dict[str, Any]] = []
+    for spec in MODEL_SPECS:
+        missing = _missing_module(spec)
+        out.append(
+            {
+                "id": spec.id,
+                "label": spec.label,
+                "kind": spec.kind,
+                "available": missing is None,
+                "loaded": spec.id in _loaded_models,
+                "error": f"No module named '{missing}'" if missing else None,
+            }
+        )
+    return out
+
+
+def _pick_default_model() -> str:
+    requested = os.environ.get("LAMIVI_MODEL", "lama").strip().lower()
+    candidates = [requested] + [spec.id for spec in MODEL_SPECS]
+    for model_id in candidates:
+        spec = _SPECS_BY_ID.get(model_id)
+        if spec is not None and _missing_module(spec) is None:
+            return model_id
+    # Nothing importable: let the LaMa import error surface at startup as before.
+    return "lama"
+
+
+DEFAULT_MODEL = _pick_default_model()
+_get_model(DEFAULT_MODEL)
+
+
+# Binary frames: ">II" (header length, body length), UTF-8 JSON header, then the body.
+# The header's "blobs" list names consecutive slices of the body in order.
+_FRAME_PREFIX = struct.Struct(">II")
+PROTOCOLS = ["jsonl", "binary"]
+
+
+# Large regions are split into tiles or downscaled so the model works near its native resolution.
+TILE_SIZE = max(256, int(os.environ.get("LAMIVI_TILE_SIZE", "1024") or 1024))
+TILE_OVERLAP = min(TILE_SIZE // 2, max(16, int(os.environ.get("LAMIVI_TILE_OVERLAP", "128") or 128)))
+STRATEGIES = ["auto", "direct", "tile", "resize"]
+
+
+def _run_model(fn: InpaintFn, image: Image.Image, mask: Image.Image) -> Image.Image:
+    result = fn(image, mask).convert("RGB")
+    # Some models return the padded working size; bring it back to the input size.
+    if result.size != image.size:
+        if result.width >= image.width and result.height >= image.height:
+            result = result.crop((0, 0, image.width, image.height))
+        else:
+            result = result.resize(image.size, Image.BICUBIC)
+    return result
+
+
+def _feather_weights(height: int, width: int, edges: tuple[bool, bool, bool, bool]) -> Any:
+    """Weights that ramp up across the overlap on edges shared with neighbouring tiles (top, bottom, left, right)."""
+    import numpy as np
+
+    ramp_len = max(1, TILE_OVERLAP)
+    ramp = (np.arange(ramp_len, dtype=np.float32) + 1.0) / (ramp_len + 1.0)
+    wy = np.ones(height, dtype=np.float32)
+    wx = np.ones(width, dtype=np.float32)
+    n = min(ramp_len, height)
+    if edges[0]:
+        wy[:n] = np.minimum(wy[:n], ramp[:n])
+    if edges[1]:
+        wy[height - n :] = np.minimum(wy[height - n :], ramp[:n][::-1])
+    n = min(ramp_len, width)
+    if edges[2]:
+        wx[:n] = np.minimum(wx[:n], ramp[:n])
+    if edges[3]:
+        wx[width - n :] = np.minimum(wx[width - n :], ramp[:n][::-1])
+    return wy[:, None] * wx[None, :]
+
+
+def _tile_starts(length: int) -> list[int]:
+    if length <= TILE_SIZE:
+        return [0]
+    step = TILE_SIZE - TILE_OVERLAP
+    starts = list(range(0, length - TILE_SIZE, step))
+    starts.append(length - TILE_SIZE)
+    return starts
+
+
+def _inpaint_tiled(fn: InpaintFn, image: Image.Image, mask: Image.Image) -> Image.Image:
+    import numpy as np
 
+    base = np.asarray(image, dtype=np.float32).copy()
+    hole = np.asarray(mask) > 127
+    acc = np.zeros_like(base)
+    weight = np.zeros(hole.shape, dtype=np.float32)
+    height, width = hole.shape
+    ys = _tile_starts(height)
+    xs = _tile_starts(width)
 
-def _decode_image(b64: str, mode: str) -> Image.Image:
-    raw = base64.b64decode(b64)
-    return Image.open(io.BytesIO(raw)).convert(mode)
+    for y in ys:
+        for x in xs:
+            y1, x1 = min(height, y + TILE_SIZE), min(width, x + TILE_SIZE)
+            tile_hole = hole[y:y1, x:x1]
+            if not tile_hole.any():
+                continue
+            # Feed the running composite so later tiles continue what earlier tiles filled in.
+            tile_img = Image.fromarray(base[y:y1, x:x1].round().clip(0, 255).astype(np.uint8))
+            tile_mask = Image.fromarray(tile_hole.astype(np.uint8) * 255)
+            out = np.asarray(_run_model(fn, tile_img, tile_mask), dtype=np.float32)
+            w = _feather_weights(y1 - y, x1 - x, (y > 0, y1 < height, x > 0, x1 < width)) * tile_hole
+            acc[y:y1, x:x1] += out * w[:, :, None]
+            weight[y:y1, x:x1] += w
+            filled = weight[y:y1, x:x1] > 0
+            region = base[y:y1, x:x1]
+            region[filled] = acc[y:y1, x:x1][filled] / weight[y:y1, x:x1][filled][:, None]
 
+    return Image.fromarray(base.round().clip(0, 255).astype(np.uint8))
 
-def _encode_png(img: Image.Image) -> str:
+
+def _inpaint_resized(fn: InpaintFn, image: Image.Image, mask: Image.Image) -> Image.Image:
+    import numpy as np
+
+    scale = TILE_SIZE / max(image.size)
+    small_size = (max(1, round(image.width * scale)), max(1, round(image.height * scale)))
+    small_image = image.resize(small_size, Image.LANCZOS)
+    # Bilinear + threshold grows the mask slightly so thin strokes survive the downscale.
+    small_mask = mask.resize(small_size, Image.BILINEAR).point(lambda v: 255 if v > 0 else 0)
+    upscaled = _run_model(fn, small_image, small_mask).resize(image.size, Image.BICUBIC)
+    hole = np.asarray(mask) > 127
+    out = np.asarray(image).copy()
+    out[hole] = np.asarray(upscaled)[hole]
+    return Image.fromarray(out)
+
+
+def _apply_strategy(fn: InpaintFn, image: Image.Image, mask: Image.Image, strategy: str) -> Image.Image:
+    fits = max(image.size) <= TILE_SIZE
+    if strategy == "tile" or (strategy == "auto" and not fits):
+        return _inpaint_tiled(fn, image, mask)
+    if strategy == "resize" and not fits:
+        return _inpaint_resized(fn, image, mask)
+    return _run_model(fn, image, mask)
+
+
+def _extract_alpha(image: Image.Image) -> Image.Image | None:
+    if image.mode not in ("RGBA", "LA", "PA") and not (image.mode == "P" and "transparency" in image.info):
+        return None
+    alpha = image.convert("RGBA").getchannel("A")
+    return alpha if alpha.getextrema()[0] < 255 else None
+
+
+def _inpaint_alpha(fn: InpaintFn, alpha: Image.Image, mask: Image.Image, strategy: str) -> Image.Image:
+    """Fill the alpha plane under the mask; pixels outside the mask keep their original alpha."""
+    hole = mask.point(lambda v: 255 if v > 127 else 0)
+    try:
+        import cv2
+        import numpy as np
+
+        filled = Image.fromarray(cv2.inpaint(np.asarray(alpha), np.asarray(hole), 5, cv2.INPAINT_TELEA))
+    except ImportError:
+        # No OpenCV: run the plane through the colour model as a grey image.
+        filled = _apply_strategy(fn, alpha.convert("RGB"), mask, strategy).convert("L")
+    return Image.composite(filled, alpha, hole)
+
+
+def _inpaint_png(image_bytes: bytes, mask_bytes: bytes, model_id: str, strategy: str) -> bytes:
+    source = Image.open(io.BytesIO(image_bytes))
+    alpha = _extract_alpha(source)
+    image = source.convert("RGB")
+    mask = Image.open(io.BytesIO(mask_bytes)).convert("L")
+    fn = _get_model(model_id)
+    result = _apply_strategy(fn, image, mask, strategy)
+    if alpha is not None:
+        result = result.convert("RGB")
+        result.putalpha(_inpaint_alpha(fn, alpha, mask, strategy))
     out = io.BytesIO()
-    img.save(out, format="PNG")
-    return base64.b64encode(out.getvalue()).decode("ascii")
+    result.save(out, format="PNG")
+    return out.getvalue()
+
+
+def _error_payload(req_id: Any, e: Exception) -> dict[str, Any]:
+    return {
+        "id": req_id,
+        "ok": False,
+        "error": f"{type(e).__name__}: {e}",
+        "trace": traceback.format_exc(limit=1),
+    }
 
 
 def _write(payload: dict[str, Any]) -> None:
@@ -88,6 +349,161 @@ def _write(payload: dict[str, Any]) -> None:
     sys.stdout.flush()
 
 
+def _write_frame(header: dict[str, Any], blobs: dict[str, bytes]) -> None:
+    header = {**header, "blobs": [{"name": name, "size": len(data)} for name, data in blobs.items()]}
+    raw = json.dumps(header, ensure_ascii=True).encode("utf-8")
+    out = sys.stdout.buffer
+    out.write(_FRAME_PREFIX.pack(len(raw), sum(len(data) for data in blobs.values())))
+    out.write(raw)
+    for data in blobs.values():
+        out.write(data)
+    out.flush()
+
+
+def _read_exact(stream: Any, size: int) -> bytes | None:
+    chunks: list[bytes] = []
+    remaining = size
+    while remaining > 0:
+        chunk = stream.read(remaining)
+        if not chunk:
+            return None
+        chunks.append(chunk)
+        remaining -= len(chunk)
+    return b"".join(chunks)
+
+
+def _read_frame(stream: Any) -> tuple[dict[str, Any], dict[str, bytes]] | None:
+    prefix = _read_exact(stream, _FRAME_PREFIX.size)
+    if prefix is None:
+        return None
+    header_len, body_len = _FRAME_PREFIX.unpack(prefix)
+    header_raw = _read_exact(stream, header_len)
+    body = _read_exact(stream, body_len)
+    if header_raw is None or body is None:
+        return None
+    header = json.loads(header_raw.decode("utf-8"))
+    blobs: dict[str, bytes] = {}
+    offset = 0
+    for item in header.get("blobs") or []:
+        size = int(item["size"])
+        blobs[str(item["name"])] = body[offset : offset + size]
+        offset += size
+    return header, blobs
+
+
+# stdin is drained on a reader thread so "cancel" messages arrive while a request is running.
+# Cancelled ids that have not started yet are skipped; the running one cannot be interrupted,
+# so the server recycles the whole process when it needs that slot back.
+_requests: queue.Queue[dict[str, Any] | None] = queue.Queue()
+_queued_ids: set[str] = set()
+_cancelled_ids: set[str] = set()
+_ids_lock = threading.Lock()
+
+
+def _parse_jsonl(line: str) -> tuple[dict[str, Any], bytes | None, bytes | None]:
+    msg = json.loads(line)
+    image_b64 = msg.get("image_b64")
+    mask_b64 = msg.get("mask_b64")
+    image = base64.b64decode(image_b64) if isinstance(image_b64, str) else None
+    mask = base64.b64decode(mask_b64) if isinstance(mask_b64, str) else None
+    return msg, image, mask
+
+
+def _read_requests(stdin: Any) -> None:
+    protocol = "jsonl"
+    try:
+        while True:
+            if protocol == "binary":
+                frame = _read_frame(stdin)
+                if frame is None:
+                    return
+                msg, blobs = frame
+                image, mask = blobs.get("image"), blobs.get("mask")
+            else:
+                raw = stdin.readline()
+                if not raw:
+                    return
+                line = raw.decode("utf-8").strip()
+                if not line:
+                    continue
+                try:
+                    msg, image, mask = _parse_jsonl(line)
+                except Exception as e:  # noqa: BLE001
+                    _requests.put({"protocol": protocol, "id": None, "error": e})
+                    continue
+
+            kind = msg.get("type")
+            if kind == "protocol":
+                if msg.get("protocol") == "binary":
+                    protocol = "binary"
+                continue
+            req_id = msg.get("id")
+            if kind == "cancel":
+                with _ids_lock:
+                    if req_id in _queued_ids:
+                        _cancelled_ids.add(req_id)
+                continue
+
+            if isinstance(req_id, str):
+                with _ids_lock:
+                    _queued_ids.add(req_id)
+            model_id = msg.get("model") if isinstance(msg.get("model"), str) else DEFAULT_MODEL
+            strategy = msg.get("strategy") if msg.get("strategy") in STRATEGIES else "auto"
+            _requests.put(
+                {
+                    "protocol": protocol,
+                    "id": req_id,
+                    "model": model_id,
+                    "strategy": strategy,
+                    "image": image,
+                    "mask": mask,
+                    "error": None,
+                }
+            )
+    finally:
+        _requests.put(None)
+
+
+def _respond(protocol: str, header: dict[str, Any], output: bytes | None = None) -> None:
+    if protocol == "binary":
+        _write_frame(header, {"output": output} if output is not None else {})
+        return
+    if output is not None:
+        header = {**header, "output_b64": base64.b64encode(output).decode("ascii")}
+    _write(header)
+
+
+def _serve() -> None:
+    while True:
+        item = _requests.get()
+        if item is None:
+            return
+        protocol = item["protocol"]
+        req_id = item["id"]
+        with _ids_lock:
+            cancelled = req_id in _cancelled_ids
+            _queued_ids.discard(req_id)
+            _cancelled_ids.discard(req_id)
+        if cancelled:
+            _respond(protocol, {"id": req_id, "ok": False, "cancelled": True, "error": "Cancelled"})
+            continue
+
+        try:
+            if item["error"] is not None:
+                raise item["error"]
+            image = item.get("image")
+            mask = item.get("mask")
+            if not isinstance(req_id, str) or image is None or mask is None:
+                _respond(protocol, {"id": req_id, "ok": False, "error": "Invalid request payload"})
+                continue
+            model_id = item["model"]
+            strategy = item["strategy"]
+            output = _inpaint_png(image, mask, model_id, strategy)
+            _respond(protocol, {"id": req_id, "ok": True, "model": model_id, "strategy": strategy}, output)
+        except Exception as e:  # noqa: BLE001
+            _respond(protocol, _error_payload(req_id, e))
+
+
 _write(
     {
         "type": "ready",
@@ -95,33 +511,13 @@ _write(
         "device": DEVICE,
         "cuda_available": _cuda_available(),
         "warning": DEVICE_WARNING,
+        "protocols": PROTOCOLS,
+        "models": _describe_models(),
+        "default_model": DEFAULT_MODEL,
+        "strategies": STRATEGIES,
+        "tile_size": TILE_SIZE,
     }
 )
 
-for line in sys.stdin:
-    line = line.strip()
-    if not line:
-        continue
-    try:
-        req = json.loads(line)
-        req_id = req.get("id")
-        image_b64 = req.get("image_b64")
-        mask_b64 = req.get("mask_b64")
-
-        if not isinstance(req_id, str) or not isinstance(image_b64, str) or not isinstance(mask_b64, str):
-            _write({"id": req_id, "ok": False, "error": "Invalid request payload"})
-            continue
-
-        image = _decode_image(image_b64, "RGB")
-        mask = _decode_image(mask_b64, "L")
-        result = MODEL(image, mask)
-        out_b64 = _encode_png(result)
-        _write({"id": req_id, "ok": True, "output_b64": out_b64})
-    except Exception as e:  # noqa: BLE001
-        _write(
-            {
-                "ok": False,
-                "error": f"{type(e).__name__}: {e}",
-                "trace": traceback.format_exc(limit=1),
-            }
-        )
+threading.Thread(target=_read_requests, args=(sys.stdin.buffer,), daemon=True).start()
+_serve()
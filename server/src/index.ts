@@ -89,17 +89,87 @@ const PYTHON_CANDIDATES = buildPythonCandidates()
 const WORKER_TIMEOUT_MS = Number(process.env.LAMIVI_WORKER_TIMEOUT_MS ?? 120000)
 const WORKER_BOOT_TIMEOUT_MS = Number(process.env.LAMIVI_BOOT_TIMEOUT_MS ?? 120000)
 const WORKER_SCRIPT = path.resolve(__dirname, '../python/lama_worker.py')
+const WORKER_POOL_SIZE = ((): number => {
+  const raw = Number(process.env.LAMIVI_WORKERS ?? 1)
+  return Number.isFinite(raw) ? Math.max(1, Math.min(16, Math.floor(raw))) : 1
+})()
+const WORKER_PROTOCOL_PREFERENCE: 'auto' | 'json' =
+  (process.env.LAMIVI_WORKER_PROTOCOL ?? 'auto').toLowerCase().trim() === 'json' ? 'json' : 'auto'
+const JOB_CONCURRENCY = WORKER_POOL_SIZE
+const JOB_TTL_MS = Number(process.env.LAMIVI_JOB_TTL_MS ?? 600000)
+
+// Binary frame: u32 BE header length, u32 BE body length, UTF-8 JSON header, body.
+// The header's `blobs` list names consecutive slices of the body in order.
+const FRAME_PREFIX_BYTES = 8
+
+type WorkerProtocol = 'json' | 'binary'
+
+type FrameBlob = {
+  name: string
+  size: number
+}
+
+// How the worker handles regions larger than its tile size: `auto` tiles them, `direct` sends the
+// whole region, `tile` always uses overlapping feathered tiles, `resize` downscales then upscales the patch.
+const INPAINT_STRATEGIES = ['auto', 'direct', 'tile', 'resize'] as const
+type InpaintStrategy = (typeof INPAINT_STRATEGIES)[number]
+
+type InpaintInput = {
+  image: Buffer
+  mask: Buffer
+  // Worker model id; null uses the worker's default model.
+  model: string | null
+  strategy: InpaintStrategy
+}
+
+type WorkerModel = {
+  id: string
+  label: string
+  kind: 'neural' | 'classical'
+  available: boolean
+  loaded: boolean
+  error: string | null
+}
 
 type WorkerRequest = {
   resolve: (value: Buffer) => void
   reject: (reason?: unknown) => void
   timer: NodeJS.Timeout
+  // Kept so the request can be re-sent if the worker is recycled before answering.
+  input: InpaintInput
+}
+
+function parseWorkerModels(raw: unknown): WorkerModel[] {
+  if (!Array.isArray(raw)) return []
+  const out: WorkerModel[] = []
+  for (const item of raw as Array<Record<string, unknown>>) {
+    if (!item || typeof item.id !== 'string') continue
+    out.push({
+      id: item.id,
+      label: typeof item.label === 'string' ? item.label : item.id,
+      kind: item.kind === 'classical' ? 'classical' : 'neural',
+      available: item.available === true,
+      loaded: item.loaded === true,
+      error: typeof item.error === 'string' ? item.error : null,
+    })
+  }
+  return out
 }
 
 class LamaWorkerClient {
+  readonly index: number
   private proc: ChildProcessWithoutNullStreams | null = null
   private readonly pending = new Map<string, WorkerRequest>()
+  // A request the caller abandoned while the worker was already computing it. The worker stays busy
+  // until its response arrives, so it still counts as in flight.
+  private abandonedRunning: string | null = null
   private stdoutBuf = ''
+  private frameChunks: Buffer[] = []
+  private frameBytes = 0
+  private protocol: WorkerProtocol = 'json'
+  private advertisedProtocols: string[] = []
+  private models: WorkerModel[] = []
+  private defaultModel: string | null = null
   private ready = false
   private device: string | null = null
   private requestedDevice: 'auto' | 'cpu' | 'cuda' = ((): 'auto' | 'cpu' | 'cuda' => {
@@ -110,6 +180,15 @@ class LamaWorkerClient {
   private initPromise: Promise<void> | null = null
   private lastError: string | null = null
   private warning: string | null = null
+  private restarts = 0
+
+  constructor(index: number) {
+    this.index = index
+  }
+
+  private get tag(): string {
+    return WORKER_POOL_SIZE > 1 ? `lama-worker#${this.index}` : 'lama-worker'
+  }
 
   private decodeBase64ToBuffer(value: string): Buffer {
     return Buffer.from(value, 'base64')
@@ -135,14 +214,83 @@ class LamaWorkerClient {
 
   private stopWorker() {
     if (this.proc && !this.proc.killed) {
+      this.proc.stdout.removeAllListeners('data')
       this.proc.kill()
     }
     this.proc = null
     this.ready = false
     this.initPromise = null
+    this.abandonedRunning = null
+  }
+
+  private settleResponse(msg: Record<string, unknown>, output: Buffer | null) {
+    const id = typeof msg.id === 'string' ? msg.id : null
+    if (!id) return
+    if (id === this.abandonedRunning) {
+      this.abandonedRunning = null
+      return
+    }
+    const pending = this.pending.get(id)
+    if (!pending) return
+    this.pending.delete(id)
+    clearTimeout(pending.timer)
+
+    if (msg.ok === true) {
+      const model = typeof msg.model === 'string' ? this.models.find((m) => m.id === msg.model) : undefined
+      if (model) model.loaded = true
+      if (!output) {
+        pending.reject(new Error('Worker response missing output'))
+        return
+      }
+      pending.resolve(output)
+      return
+    }
+
+    const errorMsg = typeof msg.error === 'string' ? msg.error : 'Unknown worker error'
+    pending.reject(new Error(errorMsg))
+  }
+
+  private handleFrameChunk(chunk: Buffer) {
+    this.frameChunks.push(chunk)
+    this.frameBytes += chunk.length
+    while (this.frameBytes >= FRAME_PREFIX_BYTES) {
+      if (this.frameChunks[0].length < FRAME_PREFIX_BYTES) {
+        this.frameChunks = [Buffer.concat(this.frameChunks)]
+      }
+      const head = this.frameChunks[0]
+      const headerLength = head.readUInt32BE(0)
+      const bodyLength = head.readUInt32BE(4)
+      const total = FRAME_PREFIX_BYTES + headerLength + bodyLength
+      // Only join chunks once the whole frame has arrived, so large outputs are copied a single time.
+      if (this.frameBytes < total) return
+
+      const buf = this.frameChunks.length === 1 ? head : Buffer.concat(this.frameChunks)
+      const rest = buf.subarray(total)
+      this.frameChunks = rest.length > 0 ? [rest] : []
+      this.frameBytes = rest.length
+
+      try {
+        const headerEnd = FRAME_PREFIX_BYTES + headerLength
+        const msg = JSON.parse(buf.subarray(FRAME_PREFIX_BYTES, headerEnd).toString('utf8')) as Record<string, unknown>
+        const blobs = Array.isArray(msg.blobs) ? (msg.blobs as FrameBlob[]) : []
+        let offset = headerEnd
+        let output: Buffer | null = null
+        for (const blob of blobs) {
+          if (blob.name === 'output') output = buf.subarray(offset, offset + blob.size)
+          offset += blob.size
+        }
+        this.settleResponse(msg, output)
+      } catch (e) {
+        this.clearAllPending(new Error(`Invalid worker output: ${String(e)}`))
+      }
+    }
   }
 
   private handleStdoutChunk(chunk: Buffer) {
+    if (this.protocol === 'binary') {
+      this.handleFrameChunk(chunk)
+      return
+    }
     this.stdoutBuf += chunk.toString('utf8')
     while (true) {
       const idx = this.stdoutBuf.indexOf('\n')
@@ -158,40 +306,122 @@ class LamaWorkerClient {
           this.requestedDevice = this.normalizeDevice(typeof msg.requested_device === 'string' ? msg.requested_device : this.requestedDevice)
           this.cudaAvailable = typeof msg.cuda_available === 'boolean' ? msg.cuda_available : this.cudaAvailable
           this.warning = typeof msg.warning === 'string' ? msg.warning : null
+          this.advertisedProtocols = Array.isArray(msg.protocols) ? msg.protocols.filter((p): p is string => typeof p === 'string') : []
+          this.models = parseWorkerModels(msg.models)
+          this.defaultModel = typeof msg.default_model === 'string' ? msg.default_model : null
           if (this.warning) {
             // eslint-disable-next-line no-console
-            console.warn(`[lama-worker warning] ${this.warning}`)
+            console.warn(`[${this.tag} warning] ${this.warning}`)
           }
           this.ready = true
           this.lastError = null
           return
         }
 
-        const id = typeof msg.id === 'string' ? msg.id : null
-        if (!id) continue
-        const pending = this.pending.get(id)
-        if (!pending) continue
-        this.pending.delete(id)
-        clearTimeout(pending.timer)
-
-        if (msg.ok === true) {
-          const outputB64 = msg.output_b64
-          if (typeof outputB64 !== 'string') {
-            pending.reject(new Error('Worker response missing output_b64'))
-            continue
-          }
-          pending.resolve(this.decodeBase64ToBuffer(outputB64))
-          continue
-        }
-
-        const errorMsg = typeof msg.error === 'string' ? msg.error : 'Unknown worker error'
-        pending.reject(new Error(errorMsg))
+        const output = typeof msg.output_b64 === 'string' ? this.decodeBase64ToBuffer(msg.output_b64) : null
+        this.settleResponse(msg, output)
       } catch (e) {
         this.clearAllPending(new Error(`Invalid worker output: ${String(e)}`))
       }
     }
   }
 
+  // Workers always boot in JSON-lines mode; switch to binary frames when both sides support it.
+  private negotiateProtocol(proc: ChildProcessWithoutNullStreams) {
+    if (WORKER_PROTOCOL_PREFERENCE === 'json' || !this.advertisedProtocols.includes('binary')) return
+    proc.stdin.write(`${JSON.stringify({ type: 'protocol', protocol: 'binary' })}\n`)
+    this.protocol = 'binary'
+    this.stdoutBuf = ''
+  }
+
+  private writeFrame(proc: ChildProcessWithoutNullStreams, msg: Record<string, unknown>, parts: Array<{ name: string; data: Buffer }>) {
+    const blobs: FrameBlob[] = parts.map((part) => ({ name: part.name, size: part.data.length }))
+    const header = Buffer.from(JSON.stringify({ ...msg, blobs }), 'utf8')
+    const prefix = Buffer.alloc(FRAME_PREFIX_BYTES)
+    prefix.writeUInt32BE(header.length, 0)
+    prefix.writeUInt32BE(blobs.reduce((sum, blob) => sum + blob.size, 0), 4)
+    proc.stdin.write(prefix)
+    proc.stdin.write(header)
+    for (const part of parts) proc.stdin.write(part.data)
+  }
+
+  private writeMessage(proc: ChildProcessWithoutNullStreams, msg: Record<string, unknown>) {
+    if (this.protocol === 'binary') {
+      this.writeFrame(proc, msg, [])
+      return
+    }
+    proc.stdin.write(`${JSON.stringify(msg)}\n`)
+  }
+
+  private writeRequest(proc: ChildProcessWithoutNullStreams, id: string, input: InpaintInput) {
+    const header = { id, strategy: input.strategy, ...(input.model ? { model: input.model } : {}) }
+    if (this.protocol === 'binary') {
+      this.writeFrame(proc, header, [
+        { name: 'image', data: input.image },
+        { name: 'mask', data: input.mask },
+      ])
+      return
+    }
+
+    this.writeMessage(proc, {
+      ...header,
+      image_b64: this.encodeBufferToBase64(input.image),
+      mask_b64: this.encodeBufferToBase64(input.mask),
+    })
+  }
+
+  // Drop a request the caller no longer wants. Requests the worker has not started are skipped
+  // via a `cancel` message. The running one cannot be interrupted, so the process is recycled
+  // when it looks stuck (timeout) or when other requests are waiting behind it; otherwise it is
+  // left to finish and counted as in flight until then.
+  private abandon(id: string, reason: Error, stuck: boolean) {
+    const entry = this.pending.get(id)
+    if (!entry) return
+    const running = this.abandonedRunning === null && this.pending.keys().next().value === id
+    this.pending.delete(id)
+    clearTimeout(entry.timer)
+    entry.reject(reason)
+
+    if ((running && (stuck || this.pending.size > 0)) || (stuck && this.abandonedRunning !== null)) {
+      // eslint-disable-next-line no-console
+      console.warn(`[${this.tag}] recycling worker to drop abandoned request ${id}`)
+      this.restart().catch((e) => {
+        // eslint-disable-next-line no-console
+        console.error(`[${this.tag}] restart failed: ${String(e)}`)
+      })
+      return
+    }
+    if (running) {
+      this.abandonedRunning = id
+      return
+    }
+    if (this.proc) {
+      try {
+        this.writeMessage(this.proc, { type: 'cancel', id })
+      } catch {
+        // worker is going away; its exit handler settles the rest
+      }
+    }
+  }
+
+  // Replace the worker process, then re-send requests that were still waiting on the old one.
+  private async restart(): Promise<void> {
+    const carried = [...this.pending.keys()]
+    this.stopWorker()
+    try {
+      await this.ensureReady()
+    } catch (e) {
+      this.clearAllPending(e instanceof Error ? e : new Error(String(e)))
+      throw e
+    }
+    const proc = this.proc
+    if (!proc) return
+    for (const id of carried) {
+      const entry = this.pending.get(id)
+      if (entry) this.writeRequest(proc, id, entry.input)
+    }
+  }
+
   private async spawnWorker(): Promise<void> {
     let lastErr: unknown = null
     const attempted: string[] = []
@@ -199,12 +429,19 @@ class LamaWorkerClient {
     for (const py of PYTHON_CANDIDATES) {
       try {
         this.ready = false
+        this.protocol = 'json'
+        this.advertisedProtocols = []
+        this.stdoutBuf = ''
+        this.frameChunks = []
+        this.frameBytes = 0
         attempted.push([py.bin, ...py.args].join(' '))
         const proc = spawn(py.bin, [...py.args, WORKER_SCRIPT], {
           stdio: ['pipe', 'pipe', 'pipe'],
           env: {
             ...process.env,
             LAMIVI_DEVICE: this.requestedDevice,
+            // Split CPU threads between pool members so parallel workers don't oversubscribe cores.
+            ...(WORKER_POOL_SIZE > 1 ? { LAMIVI_TORCH_THREADS: String(Math.max(1, Math.floor(os.cpus().length / WORKER_POOL_SIZE))) } : {}),
           },
           shell: false,
         })
@@ -237,7 +474,7 @@ class LamaWorkerClient {
             if (!msg) return
             startupErr = startupErr ? `${startupErr}\n${msg}` : msg
             // eslint-disable-next-line no-console
-            console.error(`[lama-worker stderr] ${msg}`)
+            console.error(`[${this.tag} stderr] ${msg}`)
           }
           const onExit = (code: number | null, signal: NodeJS.Signals | null) => {
             if (this.ready) return
@@ -253,14 +490,19 @@ class LamaWorkerClient {
         })
 
         proc.on('exit', () => {
+          // A deliberate stop (device switch) has already replaced or cleared this.proc.
+          if (this.proc !== proc) return
+          this.restarts += 1
           this.proc = null
           this.ready = false
           this.initPromise = null
+          this.abandonedRunning = null
           this.lastError = 'LaMa worker exited unexpectedly'
           this.clearAllPending(new Error('LaMa worker exited unexpectedly'))
         })
 
         this.proc = proc
+        this.negotiateProtocol(proc)
         return
       } catch (e) {
         lastErr = e
@@ -282,29 +524,41 @@ class LamaWorkerClient {
     await this.initPromise
   }
 
-  async inpaint(image: Buffer, mask: Buffer): Promise<Buffer> {
+  async inpaint(input: InpaintInput, signal?: AbortSignal): Promise<Buffer> {
+    if (signal?.aborted) throw new Error('LaMa request cancelled')
     await this.ensureReady()
     if (!this.proc) throw new Error('LaMa worker not running')
+    if (signal?.aborted) throw new Error('LaMa request cancelled')
 
+    const proc = this.proc
     const id = `${Date.now()}-${Math.random().toString(16).slice(2)}`
-    const payload = {
-      id,
-      image_b64: this.encodeBufferToBase64(image),
-      mask_b64: this.encodeBufferToBase64(mask),
-    }
 
     return await new Promise<Buffer>((resolve, reject) => {
+      const onAbort = () => this.abandon(id, new Error('LaMa request cancelled'), false)
+      const cleanup = () => signal?.removeEventListener('abort', onAbort)
       const timer = setTimeout(() => {
-        this.pending.delete(id)
-        reject(new Error(`LaMa worker timeout after ${WORKER_TIMEOUT_MS}ms`))
+        this.abandon(id, new Error(`LaMa worker timeout after ${WORKER_TIMEOUT_MS}ms`), true)
       }, WORKER_TIMEOUT_MS)
 
-      this.pending.set(id, { resolve, reject, timer })
+      this.pending.set(id, {
+        resolve: (value) => {
+          cleanup()
+          resolve(value)
+        },
+        reject: (reason) => {
+          cleanup()
+          reject(reason)
+        },
+        timer,
+        input,
+      })
+      signal?.addEventListener('abort', onAbort, { once: true })
 
       try {
-        this.proc?.stdin.write(`${JSON.stringify(payload)}\n`)
+        this.writeRequest(proc, id, input)
       } catch (e) {
         clearTimeout(timer)
+        cleanup()
         this.pending.delete(id)
         reject(e)
       }
@@ -331,21 +585,271 @@ class LamaWorkerClient {
     return this.warning
   }
 
+  getModels(): WorkerModel[] {
+    return this.models
+  }
+
+  getDefaultModel(): string | null {
+    return this.defaultModel
+  }
+
   isReady(): boolean {
     return this.ready
   }
 
+  getProtocol(): WorkerProtocol {
+    return this.protocol
+  }
+
+  getPendingCount(): number {
+    return this.pending.size + (this.abandonedRunning ? 1 : 0)
+  }
+
+  getPid(): number | null {
+    return this.proc?.pid ?? null
+  }
+
+  getRestartCount(): number {
+    return this.restarts
+  }
+
   async setRequestedDevice(next: 'cpu' | 'cuda'): Promise<void> {
     if (this.requestedDevice === next && this.ready) return
     this.requestedDevice = next
     this.warning = null
     this.lastError = null
-    this.stopWorker()
-    await this.ensureReady()
+    await this.restart()
+  }
+}
+
+class LamaWorkerPool {
+  private readonly workers: LamaWorkerClient[]
+
+  constructor(size: number) {
+    this.workers = Array.from({ length: size }, (_, i) => new LamaWorkerClient(i))
+  }
+
+  private primary(): LamaWorkerClient {
+    return this.workers.find((w) => w.isReady()) ?? this.workers[0]
+  }
+
+  // Prefer ready workers, then the one with the fewest in-flight requests.
+  private pick(): LamaWorkerClient {
+    let best = this.workers[0]
+    for (const w of this.workers) {
+      if (w.isReady() !== best.isReady()) {
+        if (w.isReady()) best = w
+        continue
+      }
+      if (w.getPendingCount() < best.getPendingCount()) best = w
+    }
+    return best
+  }
+
+  async ensureReady(): Promise<void> {
+    const results = await Promise.allSettled(this.workers.map((w) => w.ensureReady()))
+    if (results.some((r) => r.status === 'fulfilled')) return
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+    throw failed?.reason ?? new Error('LaMa worker not running')
+  }
+
+  async inpaint(input: InpaintInput, signal?: AbortSignal): Promise<Buffer> {
+    return await this.pick().inpaint(input, signal)
+  }
+
+  getDevice(): string | null {
+    return this.primary().getDevice()
+  }
+
+  getRequestedDevice(): 'auto' | 'cpu' | 'cuda' {
+    return this.primary().getRequestedDevice()
+  }
+
+  getCudaAvailable(): boolean | null {
+    return this.primary().getCudaAvailable()
+  }
+
+  getLastError(): string | null {
+    if (this.isReady()) return null
+    return this.workers.map((w) => w.getLastError()).find((e) => e !== null) ?? null
+  }
+
+  getWarning(): string | null {
+    return this.primary().getWarning()
+  }
+
+  getModels(): WorkerModel[] {
+    return this.primary().getModels()
+  }
+
+  getDefaultModel(): string | null {
+    return this.primary().getDefaultModel()
+  }
+
+  isReady(): boolean {
+    return this.workers.some((w) => w.isReady())
+  }
+
+  size(): number {
+    return this.workers.length
+  }
+
+  workerStats() {
+    return this.workers.map((w) => ({
+      index: w.index,
+      ready: w.isReady(),
+      pid: w.getPid(),
+      device: w.getDevice(),
+      protocol: w.getProtocol(),
+      busy: w.getPendingCount(),
+      restarts: w.getRestartCount(),
+      error: w.getLastError(),
+    }))
+  }
+
+  async setRequestedDevice(next: 'cpu' | 'cuda'): Promise<void> {
+    const results = await Promise.allSettled(this.workers.map((w) => w.setRequestedDevice(next)))
+    const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected')
+    if (failed) throw failed.reason
   }
 }
 
-const lamaWorker = new LamaWorkerClient()
+const lamaWorker = new LamaWorkerPool(WORKER_POOL_SIZE)
+
+type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled'
+
+type InpaintJob = {
+  id: string
+  status: JobStatus
+  input: InpaintInput | null
+  result: Buffer | null
+  error: string | null
+  abort: AbortController | null
+  createdAt: number
+  startedAt: number | null
+  finishedAt: number | null
+}
+
+class InpaintJobQueue {
+  private readonly jobs = new Map<string, InpaintJob>()
+  private readonly queue: string[] = []
+  private running = 0
+
+  submit(input: InpaintInput): InpaintJob {
+    const job: InpaintJob = {
+      id: `job-${Date.now().toString(36)}-${Math.random().toString(16).slice(2, 10)}`,
+      status: 'queued',
+      input,
+      result: null,
+      error: null,
+      abort: null,
+      createdAt: Date.now(),
+      startedAt: null,
+      finishedAt: null,
+    }
+    this.jobs.set(job.id, job)
+    this.queue.push(job.id)
+    this.pump()
+    return job
+  }
+
+  get(id: string): InpaintJob | null {
+    return this.jobs.get(id) ?? null
+  }
+
+  position(id: string): number | null {
+    const idx = this.queue.indexOf(id)
+    return idx < 0 ? null : idx + 1
+  }
+
+  cancel(id: string): InpaintJob | null {
+    const job = this.jobs.get(id)
+    if (!job) return null
+    if (job.status === 'queued') {
+      const idx = this.queue.indexOf(id)
+      if (idx >= 0) this.queue.splice(idx, 1)
+    }
+    if (job.status === 'queued' || job.status === 'running') {
+      job.abort?.abort()
+      this.finish(job, 'cancelled')
+    }
+    return job
+  }
+
+  sweep(now = Date.now()) {
+    for (const [id, job] of this.jobs.entries()) {
+      if (job.finishedAt !== null && now - job.finishedAt > JOB_TTL_MS) {
+        this.jobs.delete(id)
+      }
+    }
+  }
+
+  toPayload(job: InpaintJob) {
+    return {
+      id: job.id,
+      status: job.status,
+      position: this.position(job.id),
+      error: job.error,
+      createdAt: job.createdAt,
+      startedAt: job.startedAt,
+      finishedAt: job.finishedAt,
+    }
+  }
+
+  stats() {
+    return {
+      queued: this.queue.length,
+      running: this.running,
+      total: this.jobs.size,
+    }
+  }
+
+  private finish(job: InpaintJob, status: JobStatus, result: Buffer | null = null, error: string | null = null) {
+    job.status = status
+    job.result = result
+    job.error = error
+    job.input = null
+    job.abort = null
+    job.finishedAt = Date.now()
+  }
+
+  private pump() {
+    while (this.running < JOB_CONCURRENCY && this.queue.length > 0) {
+      const id = this.queue.shift()
+      const job = id ? this.jobs.get(id) : undefined
+      if (!job || job.status !== 'queued') continue
+      this.running += 1
+      void this.run(job).finally(() => {
+        this.running -= 1
+        this.pump()
+      })
+    }
+  }
+
+  private async run(job: InpaintJob) {
+    const { input } = job
+    if (!input) {
+      this.finish(job, 'failed', null, 'Job payload missing')
+      return
+    }
+    job.status = 'running'
+    job.startedAt = Date.now()
+    job.abort = new AbortController()
+    try {
+      const out = await runLamaInpaint(input, job.abort.signal)
+      // The client may have cancelled while the worker was busy; drop the late result.
+      if (job.status !== 'running') return
+      this.finish(job, 'done', out)
+    } catch (e) {
+      if (job.status !== 'running') return
+      this.finish(job, 'failed', null, describeInpaintError(e))
+    }
+  }
+}
+
+const inpaintJobs = new InpaintJobQueue()
+
+setInterval(() => inpaintJobs.sweep(), Math.max(5000, Math.min(JOB_TTL_MS, 60000))).unref()
 
 function healthPayload() {
   return {
@@ -357,7 +861,12 @@ function healthPayload() {
       cudaAvailable: lamaWorker.getCudaAvailable(),
       error: lamaWorker.getLastError(),
       warning: lamaWorker.getWarning(),
+      models: lamaWorker.getModels(),
+      defaultModel: lamaWorker.getDefaultModel(),
+      poolSize: lamaWorker.size(),
+      workers: lamaWorker.workerStats(),
     },
+    jobs: inpaintJobs.stats(),
   }
 }
 
@@ -397,36 +906,126 @@ app.post('/api/device', async (req, res) => {
   }
 })
 
-async function runLamaInpaint(image: Buffer, mask: Buffer): Promise<Buffer> {
-  return await lamaWorker.inpaint(image, mask)
+async function runLamaInpaint(input: InpaintInput, signal?: AbortSignal): Promise<Buffer> {
+  return await lamaWorker.inpaint(input, signal)
 }
 
-app.post('/api/inpaint', upload.fields([{ name: 'image', maxCount: 1 }, { name: 'mask', maxCount: 1 }]), async (req, res) => {
-  try {
-    const files = req.files as Record<string, Express.Multer.File[]> | undefined
-    const imageFile = files?.image?.[0]
-    const maskFile = files?.mask?.[0]
+function describeInpaintError(e: unknown): string {
+  const message = String(e instanceof Error ? e.message : e)
+  if (message.includes('ENOENT')) {
+    return 'Python executable not found. Install Python 3.10+ and ensure `py` or `python` is available in PATH.'
+  }
+  if (message.includes('No module named')) {
+    return 'Inpainting model dependencies are missing. Install required packages (simple-lama-inpainting, pillow, numpy; opencv-python for OpenCV; iopaint for MAT/MI-GAN).'
+  }
+  return message
+}
+
+const inpaintUpload = upload.fields([{ name: 'image', maxCount: 1 }, { name: 'mask', maxCount: 1 }])
+
+function readInpaintInput(req: express.Request): InpaintInput | null {
+  const files = req.files as Record<string, Express.Multer.File[]> | undefined
+  const imageFile = files?.image?.[0]
+  const maskFile = files?.mask?.[0]
+  if (!imageFile || !maskFile) return null
+  const model = typeof req.body?.model === 'string' ? req.body.model.trim() : ''
+  const strategy = typeof req.body?.strategy === 'string' ? req.body.strategy.trim() : ''
+  return {
+    image: imageFile.buffer,
+    mask: maskFile.buffer,
+    model: model || null,
+    strategy: (INPAINT_STRATEGIES as readonly string[]).includes(strategy) ? (strategy as InpaintStrategy) : 'auto',
+  }
+}
+
+// Models can only be checked once a worker has advertised them; before that the worker rejects unknown ids.
+function checkInpaintModel(model: string | null): string | null {
+  if (!model) return null
+  const models = lamaWorker.getModels()
+  if (models.length === 0) return null
+  const found = models.find((m) => m.id === model)
+  if (!found) return `Unknown model: ${model}`
+  if (!found.available) return `Model ${model} is not available${found.error ? `: ${found.error}` : ''}`
+  return null
+}
+
+// Abort the worker request when the client goes away before the response is written.
+function abortOnDisconnect(res: express.Response): AbortSignal {
+  const controller = new AbortController()
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort()
+  })
+  return controller.signal
+}
 
-    if (!imageFile || !maskFile) {
+app.post('/api/inpaint', inpaintUpload, async (req, res) => {
+  const signal = abortOnDisconnect(res)
+  try {
+    const input = readInpaintInput(req)
+    if (!input) {
       res.status(400).json({ error: 'Missing image or mask' })
       return
     }
+    const modelError = checkInpaintModel(input.model)
+    if (modelError) {
+      res.status(400).json({ error: modelError })
+      return
+    }
 
-    const out = await runLamaInpaint(imageFile.buffer, maskFile.buffer)
+    const out = await runLamaInpaint(input, signal)
     res.setHeader('content-type', 'image/png')
     res.send(out)
   } catch (e) {
-    const message = String(e instanceof Error ? e.message : e)
-    if (message.includes('ENOENT')) {
-      res.status(500).json({ error: 'Python executable not found. Install Python 3.10+ and ensure `py` or `python` is available in PATH.' })
-      return
-    }
-    if (message.includes('No module named')) {
-      res.status(500).json({ error: 'LaMa dependencies are missing. Install required packages (simple-lama-inpainting, pillow, numpy).' })
-      return
-    }
-    res.status(500).json({ error: message })
+    if (signal.aborted) return
+    res.status(500).json({ error: describeInpaintError(e) })
+  }
+})
+
+app.post('/api/jobs', inpaintUpload, (req, res) => {
+  const input = readInpaintInput(req)
+  if (!input) {
+    res.status(400).json({ error: 'Missing image or mask' })
+    return
+  }
+  const modelError = checkInpaintModel(input.model)
+  if (modelError) {
+    res.status(400).json({ error: modelError })
+    return
+  }
+  const job = inpaintJobs.submit(input)
+  res.status(202).json(inpaintJobs.toPayload(job))
+})
+
+app.get('/api/jobs/:id', (req, res) => {
+  const job = inpaintJobs.get(req.params.id)
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' })
+    return
+  }
+  res.json(inpaintJobs.toPayload(job))
+})
+
+app.get('/api/jobs/:id/result', (req, res) => {
+  const job = inpaintJobs.get(req.params.id)
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' })
+    return
+  }
+  if (job.status !== 'done' || !job.result) {
+    res.status(409).json({ ...inpaintJobs.toPayload(job), error: `Job is ${job.status}` })
+    return
+  }
+  res.setHeader('content-type', 'image/png')
+  res.send(job.result)
+})
+
+app.delete('/api/jobs/:id', (req, res) => {
+  const job = inpaintJobs.cancel(req.params.id)
+  if (!job) {
+    res.status(404).json({ error: 'Job not found' })
+    return
   }
+  res.json(inpaintJobs.toPayload(job))
 })
 
 const webDist = path.resolve(__dirname, '../../web/dist')
@@ -1,14 +1,53 @@
 import { type DragEvent, type MouseEvent as ReactMouseEvent, type WheelEvent as ReactWheelEvent, useEffect, useMemo, useRef, useState } from 'react'
 import Konva from 'konva'
-import { Circle, Image as KonvaImage, Layer, Line, Stage, Text, Group, Rect, Transformer } from 'react-konva'
+import { Circle, Ellipse, Image as KonvaImage, Layer, Line, Shape, Stage, Text, Group, Rect, Transformer } from 'react-konva'
 import { jsPDF } from 'jspdf'
 import PptxGenJS from 'pptxgenjs'
 
 import './App.css'
-import type { LayerGroup, MaskStroke, PageAsset, TextItem, Tool } from './lib/types'
+import type { LayerGroup, MaskApplyMode, MaskShape, MaskShapeTool, MaskStroke, PageAsset, TextAlign, TextFit, TextFitMode, TextGradient, TextItem, TextOutlineJoin, TextShadow, Tool } from './lib/types'
 import { importImageFile, importPdfFile } from './lib/importers'
-import { inpaintViaApi } from './lib/api'
-import { dataUrlToBlob, downloadBlob } from './lib/download'
+import {
+  cloneMaskShape,
+  hasAdditiveMask,
+  isMaskStroke,
+  maskShapeBounds,
+  transformMaskShape,
+  translateMaskShape,
+} from './lib/maskShapes'
+import {
+  type InpaintJobInfo,
+  type InpaintModelInfo,
+  type InpaintStrategy,
+  inpaintViaJob,
+  isAbortError,
+  parseInpaintModels,
+} from './lib/api'
+import { blobToDataUrl, downloadBlob } from './lib/download'
+import { type OcrBox, type OcrBoxKind, type OcrLanguage, detectTextBoxes } from './lib/ocr'
+import { type TextMatch, buildFindPattern, findTextMatches, replaceAllInText, replaceMatchInText } from './lib/findReplace'
+import { type AutoSaveSlot, clearAutoSaveSlots, listAutoSaveSlots, readAutoSaveSnapshot, writeAutoSaveSnapshot } from './lib/autosave'
+import {
+  type HistoryRecord,
+  clearPersistedHistory,
+  historyRetainedBytes,
+  loadPersistedHistory,
+  persistHistory,
+  recordHistory,
+  restoreHistoryRecord,
+  historyImageIds,
+  trimHistoryToBudget,
+} from './lib/history'
+import { isQuotaError } from './lib/idb'
+import { getImageBitmap, getImageBlob, getImageUrl, hasImage, putImage, putImageDataUrl, releaseUnusedImages } from './lib/imageStore'
+import { canvasJob, storedImageRef } from './lib/canvasJobs'
+import type { ExportMimeType } from './lib/canvasOps'
+import { DEFAULT_TEXT } from './lib/textDefaults'
+import { measureTextWidth, wrapTextLines } from './lib/textLayout'
+import { VERTICAL_COLUMN_PITCH, drawVerticalText, hitVerticalText, layoutVerticalText } from './lib/verticalText'
+import { type ProjectSettings, PROJECT_EXTENSION, parseProject, serializeProject } from './lib/project'
+import { type CustomFont, FONT_FILE_ACCEPT, isTrueTypeFont, loadFontFile, registerFont, unregisterFont } from './lib/fonts'
+import { type TranslationFormat, collectTranslationEntries, parseTranslations, serializeTranslations } from './lib/translation'
 
 type Size = { w: number; h: number }
 const SUPPORTED_LOCALES = ['ko', 'en'] as const
@@ -19,7 +58,7 @@ type ExportScope = 'current' | 'selected' | 'all'
 type PageSnapshot = {
   width: number
   height: number
-  baseDataUrl: string
+  imageId: string
   texts: TextItem[]
   groups: LayerGroup[]
 }
@@ -29,12 +68,6 @@ type AssetListSnapshot = {
   activeId: string | null
 }
 
-type AssetListHistoryEntry = {
-  label: string
-  snapshot: AssetListSnapshot
-  timestamp: number
-}
-
 type CropRect = {
   x: number
   y: number
@@ -44,12 +77,26 @@ type CropRect = {
 
 type InpaintJob = {
   assetId: string
-  strokes: MaskStroke[]
+  strokes: MaskShape[]
+}
+
+// Mask shape in 0..1 image coordinates; brush widths are relative to the shorter image side.
+type NormalizedStroke = MaskShape
+
+type InpaintContextMode = 'absolute' | 'relative'
+type InpaintCropAspect = 'free' | 'square'
+
+type MaskEdgeSettings = {
+  dilate: number
+  feather: number
 }
 
-type NormalizedStroke = {
-  points: number[]
-  strokeWidthRatio: number
+type InpaintContextSettings = {
+  mode: InpaintContextMode
+  // Pixels in absolute mode, percent of the mask's longer side in relative mode.
+  margin: number
+  minSize: number
+  aspect: InpaintCropAspect
 }
 
 type UiDensity = 'default' | 'compact'
@@ -73,21 +120,49 @@ type ToastLogItem = {
 
 type ActivityFilter = 'all' | 'error' | 'success' | 'working'
 
-type AutoSavePayload = {
-  assets: PageAsset[]
-  activeId: string | null
-  ts: number
-}
-
 const APP_VERSION = import.meta.env.VITE_APP_VERSION ?? 'dev'
 const BRUSH_MIN = 1
 const BRUSH_MAX = 2000
 const BRUSH_SLIDER_MAX = 1000
 const DEFAULT_BRUSH_SIZE = 150
 const DEFAULT_AUTOSAVE_SECONDS = 60
+const DEFAULT_AUTOSAVE_SLOTS = 5
+const AUTOSAVE_SLOT_OPTIONS = [3, 5, 10, 20]
+const HISTORY_MAX_ENTRIES = 200
+const DEFAULT_HISTORY_BUDGET_MB = 256
+const HISTORY_BUDGET_OPTIONS_MB = [64, 128, 256, 512, 1024]
+const HISTORY_PERSIST_DELAY_MS = 1500
+// Images stored this recently are never released, even if nothing references them yet.
+const IMAGE_SWEEP_GRACE_MS = 60_000
 const DEFAULT_ACTIVITY_LOG_LIMIT = 10
 const DEFAULT_EXPORT_QUALITY = 92
-const ERASER_COLOR_BUCKET_STEP = 8
+const DEFAULT_INPAINT_CONTEXT: InpaintContextSettings = { mode: 'relative', margin: 30, minSize: 256, aspect: 'free' }
+const INPAINT_CONTEXT_MARGIN_MAX = 2000
+const INPAINT_MIN_CROP_MAX = 2048
+const MASK_EDGE_MAX = 64
+const MASK_SHAPE_TOOLS: MaskShapeTool[] = ['brush', 'rect', 'ellipse', 'lasso', 'polygon']
+// Screen-space distance within which a click on the first vertex closes a polygon.
+const POLYGON_CLOSE_PX = 10
+const DEFAULT_MASK_OVERLAY_OPACITY = 70
+// Mask padding around OCR boxes, relative to the box height, so anti-aliased glyph edges are covered.
+const OCR_MASK_PAD_RATIO = 0.18
+// Line boxes hug the glyphs, which span slightly less than the em size Konva uses for fontSize.
+const OCR_FONT_SIZE_RATIO = 1.1
+// Families offered in the text font picker besides uploaded fonts; App.css and index.css load them.
+const BUILTIN_FONT_FAMILIES = ['IBM Plex Sans', 'Pretendard', 'Noto Sans KR', 'Chosunilbo_myungjo']
+const TEXT_OUTLINE_MAX = 40
+const DEFAULT_TEXT_SHADOW: TextShadow = { color: '#000000', blur: 6, offsetX: 2, offsetY: 2, opacity: 0.6 }
+// Font size range for fitted text, and how far fitted text stays inside an inpainted region's edge.
+const TEXT_FIT_MIN_SIZE = 8
+const TEXT_FIT_MAX_SIZE = 240
+const TEXT_FIT_REGION_INSET = 4
+// Recently inpainted regions remembered per page as fit targets once their mask is gone.
+const INPAINT_REGION_MEMORY = 20
+const TRANSLATION_FORMATS: TranslationFormat[] = ['csv', 'json', 'xliff']
+const TRANSLATION_UNMATCHED_LOG_MAX = 20
+const TRANSLATION_EXTENSIONS: Record<TranslationFormat, string> = { csv: 'csv', json: 'json', xliff: 'xlf' }
+const DEFAULT_MASK_DILATE = 4
+const DEFAULT_MASK_FEATHER = 4
 const ZOOM_MIN = 0.3
 const ZOOM_MAX = 5
 const UPSCALE_OPTIONS = [1, 2, 4, 8] as const
@@ -180,29 +255,183 @@ function toKonvaFontStyle(item: Pick<TextItem, 'fontWeight' | 'fontStyle'>): str
 }
 
 function estimateTextBoxForAsset(text: string, item: TextItem, asset: PageAsset): { width: number; height: number } {
-  const canvas = document.createElement('canvas')
-  const ctx = canvas.getContext('2d')
-  if (!ctx) {
+  if (item.writingMode === 'vertical') {
+    const layout = verticalTextLayout(text, item)
     return {
-      width: clamp(Math.round(item.fontSize * Math.max(2, text.length * 0.62)), 24, asset.width),
-      height: clamp(Math.round(item.fontSize * 1.35), 12, asset.height),
+      width: clamp(Math.ceil(layout.width), 14, Math.max(14, asset.width - item.x)),
+      height: clamp(Math.ceil(layout.height), 14, Math.max(14, asset.height - item.y)),
     }
   }
+  const lines = textLines(text, item)
+  const font = textCanvasFont(item)
+  const letterSpacing = resolveTextLetterSpacing(item)
+  const contentWidth = item.width ?? Math.max(...lines.map((line) => measureTextWidth(line || ' ', font, letterSpacing))) + 12
+  const width = clamp(Math.ceil(contentWidth), 24, Math.max(24, asset.width - item.x))
+  const lineHeight = item.fontSize * resolveTextLineHeight(item)
+  const height = clamp(Math.ceil(lineHeight * Math.max(1, lines.length)), 14, Math.max(14, asset.height - item.y))
+  return { width, height }
+}
 
+function textFontFamily(item: TextItem): string {
+  return `"${item.fontFamily}", "Pretendard", "Noto Sans KR", sans-serif`
+}
+
+function textCanvasFont(item: TextItem): string {
   const weight = item.fontWeight >= 600 ? 'bold ' : ''
   const italic = item.fontStyle === 'italic' ? 'italic ' : ''
-  const fontSize = clamp(Math.round(item.fontSize), 8, 320)
-  ctx.font = `${italic}${weight}${fontSize}px "${item.fontFamily}", "Pretendard", "Noto Sans KR", sans-serif`
-  const lines = text.split(/\r?\n/)
-  let maxWidth = 0
-  for (const line of lines) {
-    const w = Math.ceil(ctx.measureText(line || ' ').width)
-    if (w > maxWidth) maxWidth = w
-  }
-  const width = clamp(maxWidth + 12, 24, Math.max(24, asset.width - item.x))
-  const lineHeight = Math.max(14, Math.round(fontSize * 1.3))
-  const height = clamp(lineHeight * Math.max(1, lines.length), 14, Math.max(14, asset.height - item.y))
-  return { width, height }
+  return `${italic}${weight}${item.fontSize}px ${textFontFamily(item)}`
+}
+
+// The lines a horizontal item draws: its paragraphs, wrapped to the box when it has a width.
+function textLines(text: string, item: TextItem): string[] {
+  if (!item.width) return text.split(/\r?\n/)
+  return wrapTextLines(text, { font: textCanvasFont(item), letterSpacing: resolveTextLetterSpacing(item), maxWidth: item.width })
+}
+
+function verticalTextLayout(text: string, item: TextItem) {
+  return layoutVerticalText(text, {
+    font: textCanvasFont(item),
+    fontSize: item.fontSize,
+    align: item.align,
+    lineHeight: item.lineHeight,
+    letterSpacing: resolveTextLetterSpacing(item),
+  })
+}
+
+// Konva.Text attributes shared by the stage and the export overlay, so both draw the same thing.
+// Horizontal text is drawn as the lines from textLines with Konva's own wrapping off.
+function textNodeAttrs(item: TextItem): Konva.TextConfig {
+  const block = measureTextBlock(item)
+  return {
+    ...textPaintAttrs(item, item.width ?? block.width, block.height),
+    fontFamily: textFontFamily(item),
+    fontSize: item.fontSize,
+    fontStyle: toKonvaFontStyle(item),
+    align: item.align,
+    letterSpacing: resolveTextLetterSpacing(item),
+    wrap: 'none',
+    text: textLines(item.text, item).join('\n'),
+    lineHeight: resolveTextLineHeight(item),
+    ...(item.width ? { width: item.width } : {}),
+  }
+}
+
+// Konva.Shape attributes for a vertical item: it is drawn glyph by glyph at the size of its column
+// layout, with the same paint attributes as horizontal text.
+function verticalTextAttrs(item: TextItem): Konva.ShapeConfig {
+  const font = textCanvasFont(item)
+  const layout = verticalTextLayout(item.text, item)
+  return {
+    ...textPaintAttrs(item, layout.width, layout.height),
+    width: layout.width,
+    height: layout.height,
+    sceneFunc: (context, shape) => drawVerticalText(context, shape, layout, font, item.fontSize),
+    hitFunc: hitVerticalText,
+  }
+}
+
+// Fill, outline, shadow and opacity for a text node of the given size. Once an outline width is set,
+// the fill is painted after the outline so wide outlines grow outwards instead of eating into the
+// letters; texts that never set one keep the stroke over the fill they were lettered with.
+function textPaintAttrs(item: TextItem, width: number, height: number): Konva.ShapeConfig {
+  const outlineWidth = resolveTextOutlineWidth(item)
+  const { gradient, shadow } = item
+  const attrs: Konva.ShapeConfig = {
+    fill: item.fill,
+    fillPriority: 'color',
+    stroke: resolveTextOutlineColor(item),
+    strokeWidth: outlineWidth,
+    strokeEnabled: outlineWidth > 0,
+    lineJoin: item.outlineJoin ?? 'miter',
+    fillAfterStrokeEnabled: item.outlineWidth !== undefined,
+    opacity: item.opacity,
+    shadowEnabled: !!shadow,
+  }
+  if (shadow) {
+    attrs.shadowColor = shadow.color
+    attrs.shadowBlur = shadow.blur
+    attrs.shadowOffsetX = shadow.offsetX
+    attrs.shadowOffsetY = shadow.offsetY
+    attrs.shadowOpacity = shadow.opacity
+  }
+  if (gradient?.kind === 'linear') {
+    const rad = (gradient.angle * Math.PI) / 180
+    const dx = Math.cos(rad)
+    const dy = Math.sin(rad)
+    // Half the box's extent along the gradient direction, so the end colours land on its edges.
+    const half = (Math.abs(width * dx) + Math.abs(height * dy)) / 2
+    attrs.fillPriority = 'linear-gradient'
+    attrs.fillLinearGradientStartPoint = { x: width / 2 - dx * half, y: height / 2 - dy * half }
+    attrs.fillLinearGradientEndPoint = { x: width / 2 + dx * half, y: height / 2 + dy * half }
+    attrs.fillLinearGradientColorStops = [0, gradient.from, 1, gradient.to]
+  } else if (gradient?.kind === 'radial') {
+    const center = { x: width / 2, y: height / 2 }
+    attrs.fillPriority = 'radial-gradient'
+    attrs.fillRadialGradientStartPoint = center
+    attrs.fillRadialGradientEndPoint = center
+    attrs.fillRadialGradientStartRadius = 0
+    attrs.fillRadialGradientEndRadius = Math.hypot(width, height) / 2
+    attrs.fillRadialGradientColorStops = [0, gradient.from, 1, gradient.to]
+  }
+  return attrs
+}
+
+// Size of the drawn text itself, without the padding estimateTextBoxForAsset adds for backgrounds.
+function measureTextBlock(item: TextItem): { width: number; height: number } {
+  if (item.writingMode === 'vertical') return verticalTextLayout(item.text, item)
+  const font = textCanvasFont(item)
+  const letterSpacing = resolveTextLetterSpacing(item)
+  const lines = textLines(item.text, item)
+  return {
+    width: Math.max(0, ...lines.map((line) => measureTextWidth(line, font, letterSpacing))),
+    height: lines.length * item.fontSize * resolveTextLineHeight(item),
+  }
+}
+
+// Applies `item.fit`: adjusts the font size within the fit's limits and places the text in the fit
+// box, centred across the lines or columns. Items without a fit are returned unchanged.
+function fitTextToBox(item: TextItem): TextItem {
+  const fit = item.fit
+  if (!fit) return item
+  const vertical = item.writingMode === 'vertical'
+  const minSize = clamp(Math.round(fit.minSize), TEXT_FIT_MIN_SIZE, TEXT_FIT_MAX_SIZE)
+  const maxSize = clamp(Math.round(fit.maxSize), minSize, TEXT_FIT_MAX_SIZE)
+  const sized = (fontSize: number): TextItem => (vertical ? { ...item, fontSize } : { ...item, fontSize, width: fit.width })
+  const fits = (fontSize: number) => {
+    const block = measureTextBlock(sized(fontSize))
+    return block.width <= fit.width + 0.5 && block.height <= fit.height + 0.5
+  }
+  // Both modes move from the current size in one direction only: 'shrink' lowers it while the text
+  // overflows and 'grow' raises it while the text still fits. A larger size never fits where a
+  // smaller one did not, so each is a binary search on its side of the current size.
+  const current = clamp(Math.round(item.fontSize), minSize, maxSize)
+  let lo = current
+  let hi = current
+  if (fit.mode === 'shrink' && !fits(current)) {
+    lo = minSize
+    hi = current - 1
+  } else if (fit.mode === 'grow' && fits(current)) {
+    hi = maxSize
+  }
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2)
+    if (fits(mid)) lo = mid
+    else hi = mid - 1
+  }
+  const next = sized(lo)
+  const block = measureTextBlock(next)
+  return vertical
+    ? { ...next, x: Math.round(fit.x + Math.max(0, fit.width - block.width) / 2), y: Math.round(fit.y) }
+    : { ...next, x: Math.round(fit.x), y: Math.round(fit.y + Math.max(0, fit.height - block.height) / 2) }
+}
+
+// Fields that change how a fitted text measures; other edits leave its size and position alone.
+const TEXT_FIT_INPUTS = ['text', 'fontFamily', 'fontSize', 'fontWeight', 'fontStyle', 'writingMode', 'width', 'lineHeight', 'letterSpacing', 'fit'] as const
+
+// Applies an edit to a text item, re-fitting it when the edit changes what was fitted.
+function patchTextItem(item: TextItem, patch: Partial<TextItem>): TextItem {
+  const next = { ...item, ...patch }
+  return TEXT_FIT_INPUTS.some((key) => key in patch) ? fitTextToBox(next) : next
 }
 
 function useElementSize<T extends HTMLElement>() {
@@ -224,73 +453,8 @@ function useElementSize<T extends HTMLElement>() {
   return { ref, size }
 }
 
-async function renderMaskToPng(opts: {
-  width: number
-  height: number
-  strokes: MaskStroke[]
-}): Promise<Blob> {
-  const canvas = document.createElement('canvas')
-  canvas.width = opts.width
-  canvas.height = opts.height
-
-  const ctx = canvas.getContext('2d')
-  if (!ctx) throw new Error(ERR_CANVAS_UNAVAILABLE)
-
-  ctx.clearRect(0, 0, canvas.width, canvas.height)
-  ctx.fillStyle = 'black'
-  ctx.fillRect(0, 0, canvas.width, canvas.height)
-  ctx.lineCap = 'round'
-  ctx.lineJoin = 'round'
-  ctx.strokeStyle = 'white'
-
-  for (const stroke of opts.strokes) {
-    const pts = stroke.points
-    if (pts.length < 4) continue
-    ctx.lineWidth = stroke.strokeWidth
-    ctx.strokeStyle = 'white'
-    ctx.beginPath()
-    ctx.moveTo(pts[0], pts[1])
-    for (let i = 2; i < pts.length; i += 2) {
-      ctx.lineTo(pts[i], pts[i + 1])
-    }
-    ctx.stroke()
-  }
-
-  const blob: Blob | null = await new Promise((resolve) => canvas.toBlob(resolve, 'image/png'))
-  if (!blob) throw new Error(ERR_PNG_CONVERT_FAILED)
-  return blob
-}
-
-function loadHtmlImage(dataUrl: string): Promise<HTMLImageElement> {
-  return new Promise((resolve, reject) => {
-    const img = new Image()
-    img.onload = () => resolve(img)
-    img.onerror = () => reject(new Error(ERR_IMAGE_LOAD_FAILED))
-    img.src = dataUrl
-  })
-}
-
-function blobToDataUrl(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onload = () => {
-      const value = reader.result
-      if (typeof value !== 'string') {
-        reject(new Error(ERR_DATA_URL_CONVERT_FAILED))
-        return
-      }
-      resolve(value)
-    }
-    reader.onerror = () => reject(new Error(ERR_DATA_URL_CONVERT_FAILED))
-    reader.readAsDataURL(blob)
-  })
-}
-
-function cloneStrokes(strokes: MaskStroke[]): MaskStroke[] {
-  return strokes.map((stroke) => ({
-    ...stroke,
-    points: [...stroke.points],
-  }))
+function cloneStrokes(strokes: MaskShape[]): MaskShape[] {
+  return strokes.map(cloneMaskShape)
 }
 
 function cloneTextItems(texts: TextItem[]): TextItem[] {
@@ -301,49 +465,56 @@ function cloneLayerGroups(groups: LayerGroup[]): LayerGroup[] {
   return groups.map((group) => ({ ...group }))
 }
 
+// Image referenced by a serialized activity checkpoint, so the image store keeps it while the log does.
+function snapshotImageId(raw: string): string | null {
+  try {
+    const parsed = JSON.parse(raw) as Partial<PageSnapshot> | null
+    return typeof parsed?.imageId === 'string' ? parsed.imageId : null
+  } catch {
+    return null
+  }
+}
+
 function snapshotFromAsset(asset: PageAsset): PageSnapshot {
   return {
     width: asset.width,
     height: asset.height,
-    baseDataUrl: asset.baseDataUrl,
+    imageId: asset.imageId,
     texts: cloneTextItems(asset.texts),
     groups: cloneLayerGroups(asset.groups),
   }
 }
 
-function normalizeStrokes(strokes: MaskStroke[], width: number, height: number): NormalizedStroke[] {
+function normalizeStrokes(strokes: MaskShape[], width: number, height: number): NormalizedStroke[] {
   const base = Math.max(1, Math.min(width, height))
-  return strokes.map((stroke) => ({
-    points: stroke.points.map((value, idx) => (idx % 2 === 0 ? value / Math.max(1, width) : value / Math.max(1, height))),
-    strokeWidthRatio: stroke.strokeWidth / base,
-  }))
+  return strokes.map((shape) => transformMaskShape(shape, 1 / Math.max(1, width), 1 / Math.max(1, height), 0, 0, 1 / base))
 }
 
-function denormalizeStrokes(template: NormalizedStroke[], width: number, height: number): MaskStroke[] {
+function denormalizeStrokes(template: NormalizedStroke[], width: number, height: number): MaskShape[] {
   const base = Math.max(1, Math.min(width, height))
-  return template.map((stroke, idx) => ({
-    id: uid(`macro-${idx}`),
-    points: stroke.points.map((value, pIdx) => (pIdx % 2 === 0 ? value * width : value * height)),
-    strokeWidth: Math.max(1, stroke.strokeWidthRatio * base),
-  }))
+  return template.map((shape, idx) => {
+    const mapped = transformMaskShape(shape, width, height, 0, 0, base)
+    if (isMaskStroke(mapped)) mapped.strokeWidth = Math.max(1, mapped.strokeWidth)
+    return { ...mapped, id: uid(`macro-${idx}`) }
+  })
 }
 
-function getInpaintBounds(strokes: MaskStroke[], width: number, height: number, padding = 2): CropRect | null {
+function getInpaintBounds(strokes: MaskShape[], width: number, height: number, padding = 2): CropRect | null {
   if (strokes.length === 0) return null
   let minX = Number.POSITIVE_INFINITY
   let minY = Number.POSITIVE_INFINITY
   let maxX = Number.NEGATIVE_INFINITY
   let maxY = Number.NEGATIVE_INFINITY
 
-  for (const stroke of strokes) {
-    for (let i = 0; i < stroke.points.length; i += 2) {
-      const x = stroke.points[i] ?? 0
-      const y = stroke.points[i + 1] ?? 0
-      minX = Math.min(minX, x - stroke.strokeWidth / 2)
-      minY = Math.min(minY, y - stroke.strokeWidth / 2)
-      maxX = Math.max(maxX, x + stroke.strokeWidth / 2)
-      maxY = Math.max(maxY, y + stroke.strokeWidth / 2)
-    }
+  // Subtracted shapes only carve holes, so the additive shapes alone bound the mask.
+  for (const shape of strokes) {
+    if (shape.subtract) continue
+    const box = maskShapeBounds(shape)
+    if (!box) continue
+    minX = Math.min(minX, box.minX)
+    minY = Math.min(minY, box.minY)
+    maxX = Math.max(maxX, box.maxX)
+    maxY = Math.max(maxY, box.maxY)
   }
 
   if (!Number.isFinite(minX) || !Number.isFinite(minY) || !Number.isFinite(maxX) || !Number.isFinite(maxY)) {
@@ -362,102 +533,160 @@ function getInpaintBounds(strokes: MaskStroke[], width: number, height: number,
   )
 }
 
-async function renderAssetRegionToBlob(asset: PageAsset, rect: CropRect): Promise<Blob> {
-  const source = await loadHtmlImage(asset.baseDataUrl)
-  const canvas = document.createElement('canvas')
-  canvas.width = rect.width
-  canvas.height = rect.height
-  const ctx = canvas.getContext('2d')
-  if (!ctx) throw new Error(ERR_CANVAS_UNAVAILABLE)
-  ctx.drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height)
-  const blob: Blob | null = await new Promise((resolve) => canvas.toBlob(resolve, 'image/png'))
-  if (!blob) throw new Error(ERR_PNG_CONVERT_FAILED)
-  return blob
+function parseInpaintContext(raw: unknown): InpaintContextSettings {
+  const value = (raw && typeof raw === 'object' ? raw : {}) as Partial<InpaintContextSettings>
+  const margin = Number(value.margin)
+  const minSize = Number(value.minSize)
+  return {
+    mode: value.mode === 'absolute' ? 'absolute' : 'relative',
+    margin: Number.isFinite(margin) ? clamp(Math.round(margin), 0, INPAINT_CONTEXT_MARGIN_MAX) : DEFAULT_INPAINT_CONTEXT.margin,
+    minSize: Number.isFinite(minSize) ? clamp(Math.round(minSize), 0, INPAINT_MIN_CROP_MAX) : DEFAULT_INPAINT_CONTEXT.minSize,
+    aspect: value.aspect === 'square' ? 'square' : 'free',
+  }
 }
 
-async function mergeInpaintResult(baseDataUrl: string, rect: CropRect, patchBlob: Blob): Promise<string> {
-  const [baseImage, patchImage] = await Promise.all([
-    loadHtmlImage(baseDataUrl),
-    blobToDataUrl(patchBlob).then((url) => loadHtmlImage(url)),
-  ])
-  const canvas = document.createElement('canvas')
-  canvas.width = baseImage.width
-  canvas.height = baseImage.height
-  const ctx = canvas.getContext('2d')
-  if (!ctx) throw new Error(ERR_CANVAS_UNAVAILABLE)
-  ctx.drawImage(baseImage, 0, 0)
-  ctx.drawImage(patchImage, rect.x, rect.y, rect.width, rect.height)
-  return canvas.toDataURL('image/png')
+// Grows the tight mask bounds into the crop sent to the model so it sees enough surrounding context.
+function expandInpaintContext(bounds: CropRect, width: number, height: number, context: InpaintContextSettings): CropRect {
+  const margin = context.mode === 'relative' ? (Math.max(bounds.width, bounds.height) * context.margin) / 100 : context.margin
+  let cropW = Math.max(bounds.width + margin * 2, context.minSize)
+  let cropH = Math.max(bounds.height + margin * 2, context.minSize)
+  if (context.aspect === 'square') {
+    cropW = Math.max(cropW, cropH)
+    cropH = cropW
+  }
+  cropW = Math.round(Math.min(cropW, width))
+  cropH = Math.round(Math.min(cropH, height))
+  // Keep the crop centered on the mask, shifting it inward at the image edges instead of shrinking it.
+  const x = clamp(Math.round(bounds.x + bounds.width / 2 - cropW / 2), 0, width - cropW)
+  const y = clamp(Math.round(bounds.y + bounds.height / 2 - cropH / 2), 0, height - cropH)
+  return normalizeCropRect({ x, y, width: cropW, height: cropH }, width, height)
 }
 
-function dominantNeighborColor(ctx: CanvasRenderingContext2D, width: number, height: number, rect: CropRect): string {
-  const pad = clamp(Math.round(Math.max(6, Math.min(width, height) * 0.01)), 6, 28)
-  const x1 = clamp(rect.x - pad, 0, width)
-  const y1 = clamp(rect.y - pad, 0, height)
-  const x2 = clamp(rect.x + rect.width + pad, 0, width)
-  const y2 = clamp(rect.y + rect.height + pad, 0, height)
-
-  const buckets = new Map<string, { count: number; r: number; g: number; b: number }>()
-  const step = ERASER_COLOR_BUCKET_STEP
-
-  function sampleRegion(sx: number, sy: number, sw: number, sh: number) {
-    if (sw <= 0 || sh <= 0) return
-    const data = ctx.getImageData(sx, sy, sw, sh).data
-    for (let i = 0; i < data.length; i += 4) {
-      const alpha = data[i + 3] ?? 0
-      if (alpha < 8) continue
-      const r = data[i] ?? 0
-      const g = data[i + 1] ?? 0
-      const b = data[i + 2] ?? 0
-      const qr = Math.floor(r / step)
-      const qg = Math.floor(g / step)
-      const qb = Math.floor(b / step)
-      const key = `${qr},${qg},${qb}`
-      const prev = buckets.get(key)
-      if (prev) {
-        prev.count += 1
-        prev.r += r
-        prev.g += g
-        prev.b += b
-      } else {
-        buckets.set(key, { count: 1, r, g, b })
-      }
-    }
-  }
+function translateStrokes(strokes: MaskShape[], dx: number, dy: number): MaskShape[] {
+  return strokes.map((shape) => translateMaskShape(shape, dx, dy))
+}
+
+function ocrBoxesToMaskShapes(boxes: OcrBox[], width: number, height: number): MaskShape[] {
+  return boxes.map((box) => {
+    const pad = Math.max(2, Math.round(box.height * OCR_MASK_PAD_RATIO))
+    const rect = normalizeCropRect({ x: box.x - pad, y: box.y - pad, width: box.width + pad * 2, height: box.height + pad * 2 }, width, height)
+    return { id: uid('ocr'), kind: 'rect', ...rect }
+  })
+}
 
-  sampleRegion(x1, y1, x2 - x1, Math.max(0, rect.y - y1))
-  sampleRegion(x1, rect.y + rect.height, x2 - x1, Math.max(0, y2 - (rect.y + rect.height)))
-  sampleRegion(x1, rect.y, Math.max(0, rect.x - x1), rect.height)
-  sampleRegion(rect.x + rect.width, rect.y, Math.max(0, x2 - (rect.x + rect.width)), rect.height)
+function estimateOcrAlign(lines: CropRect[]): TextAlign {
+  if (lines.length < 2) return 'left'
+  const spread = (values: number[]) => Math.max(...values) - Math.min(...values)
+  const left = spread(lines.map((l) => l.x))
+  const center = spread(lines.map((l) => l.x + l.width / 2))
+  const right = spread(lines.map((l) => l.x + l.width))
+  if (center < left && center <= right) return 'center'
+  if (right < left) return 'right'
+  return 'left'
+}
+
+// One text layer per OCR paragraph, positioned over the original lettering with sampled ink and
+// background colours. `imageId` must be the page before the text is inpainted away.
+async function ocrBoxesToTextItems(boxes: OcrBox[], imageId: string, width: number, height: number): Promise<TextItem[]> {
+  const paragraphs = new Map<number, Map<number, OcrBox[]>>()
+  for (const box of boxes) {
+    const lines = paragraphs.get(box.paragraph) ?? new Map<number, OcrBox[]>()
+    lines.set(box.line, [...(lines.get(box.line) ?? []), box])
+    paragraphs.set(box.paragraph, lines)
+  }
+
+  const blocks: Array<{ lines: Array<{ text: string; rect: CropRect }>; bounds: CropRect }> = []
+  for (const lineMap of paragraphs.values()) {
+    const lines = [...lineMap.values()]
+      .map((parts) => {
+        const sorted = [...parts].sort((a, b) => a.x - b.x)
+        const x = Math.min(...sorted.map((p) => p.x))
+        const y = Math.min(...sorted.map((p) => p.y))
+        return {
+          text: sorted.map((p) => p.text).join(' '),
+          rect: {
+            x,
+            y,
+            width: Math.max(...sorted.map((p) => p.x + p.width)) - x,
+            height: Math.max(...sorted.map((p) => p.y + p.height)) - y,
+          },
+        }
+      })
+      .sort((a, b) => a.rect.y - b.rect.y)
+    if (lines.length === 0) continue
 
-  let best: { count: number; r: number; g: number; b: number } | null = null
-  for (const entry of buckets.values()) {
-    if (!best || entry.count > best.count) best = entry
+    const x = Math.min(...lines.map((l) => l.rect.x))
+    const y = Math.min(...lines.map((l) => l.rect.y))
+    const bounds = normalizeCropRect(
+      {
+        x,
+        y,
+        width: Math.max(...lines.map((l) => l.rect.x + l.rect.width)) - x,
+        height: Math.max(...lines.map((l) => l.rect.y + l.rect.height)) - y,
+      },
+      width,
+      height,
+    )
+    blocks.push({ lines, bounds })
   }
-  if (!best) return 'rgb(255, 255, 255)'
-  return `rgb(${Math.round(best.r / best.count)}, ${Math.round(best.g / best.count)}, ${Math.round(best.b / best.count)})`
+
+  const colors = await canvasJob('sampleTextColors', { image: storedImageRef(imageId), rects: blocks.map((block) => block.bounds) })
+  return blocks.map(({ lines, bounds }, idx) => {
+    const heights = lines.map((l) => l.rect.height).sort((a, b) => a - b)
+    const medianHeight = heights[Math.floor(heights.length / 2)] ?? DEFAULT_TEXT.fontSize
+    return {
+      id: uid('text'),
+      x: bounds.x,
+      y: bounds.y,
+      ...DEFAULT_TEXT,
+      text: lines.map((l) => l.text).join('\n'),
+      fontSize: clamp(Math.round(medianHeight * OCR_FONT_SIZE_RATIO), 8, 320),
+      fill: colors[idx]?.ink ?? DEFAULT_TEXT.fill,
+      outlineColor: colors[idx]?.background ?? DEFAULT_TEXT.outlineColor,
+      backgroundOpacity: 0,
+      align: estimateOcrAlign(lines.map((l) => l.rect)),
+      groupId: DEFAULT_GROUP.id,
+    }
+  })
 }
 
-async function renderAssetToDataUrl(
+// Only the text layer is drawn here, with Konva so it matches the stage; scaling the page,
+// compositing and encoding happen in the canvas worker.
+async function renderAssetToBlob(
   asset: PageAsset,
   pixelRatio = 2,
-  mimeType: 'image/png' | 'image/jpeg' | 'image/webp' = 'image/png',
+  mimeType: ExportMimeType = 'image/png',
   quality?: number,
-): Promise<string> {
-  const baseImg = await loadHtmlImage(asset.baseDataUrl)
+): Promise<Blob> {
+  const visibleTexts = asset.texts.filter((t) => t.visible)
+  let overlay: ImageBitmap | null = null
+  if (visibleTexts.length > 0) overlay = await renderTextOverlay(asset, visibleTexts, pixelRatio)
+  // The overlay is as large as the export; it moves to the worker instead of being copied.
+  return await canvasJob(
+    'composeExport',
+    {
+      image: storedImageRef(asset.imageId),
+      overlay,
+      width: asset.width,
+      height: asset.height,
+      pixelRatio,
+      mimeType,
+      quality,
+    },
+    overlay ? [overlay] : [],
+  )
+}
+
+async function renderTextOverlay(asset: PageAsset, texts: TextItem[], pixelRatio: number): Promise<ImageBitmap> {
   const container = document.createElement('div')
   const stage = new Konva.Stage({ container, width: asset.width, height: asset.height })
   const layer = new Konva.Layer()
   stage.add(layer)
 
-  layer.add(new Konva.Image({ image: baseImg, x: 0, y: 0, width: asset.width, height: asset.height }))
-
-  for (const t of asset.texts) {
-    if (!t.visible) continue
+  for (const t of texts) {
     const box = estimateTextBoxForAsset(t.text, t, asset)
     const padX = 8
     const padY = 5
-    const outlineColor = resolveTextOutlineColor(t)
     const backgroundColor = resolveTextBackgroundColor(t)
     const backgroundOpacity = resolveTextBackgroundOpacity(t)
     if (backgroundOpacity > 0.001) {
@@ -474,47 +703,18 @@ async function renderAssetToDataUrl(
         }),
       )
     }
+    const placement = { x: t.x, y: t.y, rotation: t.rotation }
     layer.add(
-      new Konva.Text({
-        x: t.x,
-        y: t.y,
-        text: t.text,
-        fontFamily: t.fontFamily,
-        fontSize: t.fontSize,
-        fontStyle: toKonvaFontStyle(t),
-        fill: t.fill,
-        rotation: t.rotation,
-        align: t.align,
-        opacity: t.opacity,
-        stroke: outlineColor,
-        strokeWidth: 1.2,
-        paintStrokeEnabled: true,
-      }),
+      t.writingMode === 'vertical'
+        ? new Konva.Shape({ ...verticalTextAttrs(t), ...placement })
+        : new Konva.Text({ ...textNodeAttrs(t), ...placement }),
     )
   }
 
   layer.draw()
-  const dataUrl = stage.toDataURL({ pixelRatio, mimeType, quality })
+  const canvas = stage.toCanvas({ pixelRatio })
   stage.destroy()
-  return dataUrl
-}
-
-const DEFAULT_TEXT: Omit<TextItem, 'id' | 'x' | 'y'> = {
-  text: 'Text',
-  fontFamily: 'IBM Plex Sans',
-  fontSize: 42,
-  fill: '#111111',
-  outlineColor: '#ffffff',
-  backgroundColor: '#ffffff',
-  backgroundOpacity: 0.2,
-  fontWeight: 500,
-  fontStyle: 'normal',
-  rotation: 0,
-  align: 'left',
-  visible: true,
-  locked: false,
-  opacity: 1,
-  groupId: 'group-default',
+  return await createImageBitmap(canvas)
 }
 
 function resolveTextOutlineColor(item: TextItem): string {
@@ -525,6 +725,18 @@ function resolveTextBackgroundColor(item: TextItem): string {
   return item.backgroundColor ?? '#ffffff'
 }
 
+function resolveTextOutlineWidth(item: TextItem): number {
+  return clamp(item.outlineWidth ?? 1.2, 0, TEXT_OUTLINE_MAX)
+}
+
+function resolveTextLineHeight(item: TextItem): number {
+  return item.lineHeight ?? 1
+}
+
+function resolveTextLetterSpacing(item: TextItem): number {
+  return item.letterSpacing ?? 0
+}
+
 function resolveTextBackgroundOpacity(item: TextItem): number {
   const value = item.backgroundOpacity
   if (typeof value !== 'number' || Number.isNaN(value)) return 0.2
@@ -616,6 +828,8 @@ const UI = {
     historyDeleteText: '텍스트 레이어 삭제',
     historyMoveText: '텍스트 이동',
     historyTransformText: '텍스트 변형',
+    historyResizeTextBox: '텍스트 상자 크기 조절',
+    historyFitText: '텍스트 영역 맞춤',
     historyClearTexts: '텍스트 전체 삭제',
     historyToggleVisible: '레이어 표시/숨김',
     historyToggleLock: '레이어 잠금/해제',
@@ -623,6 +837,12 @@ const UI = {
     historyCrop: '잘라내기',
     historyAiRestore: 'AI 복원',
     historyAiEraser: 'AI 지우개',
+    historyReplaceText: '텍스트 레이어로 교체',
+    historyImportTranslations: '번역 가져오기',
+    historyFindReplace: '텍스트 바꾸기',
+    historyFindReplaceAll: '텍스트 모두 바꾸기',
+    historyOpenProject: '프로젝트 열기',
+    historyRestoreAutoSave: '자동 저장 복원',
     historyRemoveAsset: '파일 제거',
     historyReorderAssets: '파일 순서 변경',
     historyClearAssets: '파일 전체 삭제',
@@ -636,8 +856,34 @@ const UI = {
     italicLabel: '기울임',
     opacity: '불투명도',
     restoreHint: '브러시로 칠하고 마우스를 떼면 즉시 AI 복원이 실행됩니다.',
+    inpaintModel: '복원 모델',
+    inpaintModelDefault: '기본값',
+    inpaintModelClassicalHint: '고전 알고리즘(OpenCV)은 가중치 다운로드 없이 CPU에서 빠르게 동작하지만 넓은 영역은 흐릿해질 수 있습니다.',
+    inpaintModelNeuralHint: 'AI 모델은 처음 사용할 때 가중치를 불러오므로 첫 실행이 느릴 수 있습니다.',
     eraserHint: '브러시로 칠하면 주변 색을 즉시 채워 지웁니다.',
     brushSize: '브러시 크기',
+    maskShape: '선택 도구',
+    maskShapeBrush: '브러시',
+    maskShapeRect: '사각형',
+    maskShapeEllipse: '타원',
+    maskShapeLasso: '올가미',
+    maskShapePolygon: '다각형',
+    maskShapeDragHint: '드래그해서 채워진 영역을 지정합니다.',
+    maskShapeLassoHint: '드래그로 영역을 둘러싸고 마우스를 떼면 닫힙니다.',
+    maskShapePolygonHint: '클릭해서 꼭짓점을 추가하고, 첫 점 클릭·더블클릭·Enter로 닫습니다. Esc는 취소합니다.',
+    maskApplyMode: '적용 방식',
+    maskApplyAuto: '즉시 실행',
+    maskApplyManual: '모아서 실행',
+    maskModeAdd: '추가',
+    maskModeSubtract: '빼기',
+    maskRun: '실행',
+    maskClear: '마스크 비우기',
+    maskStagedCount: (count: number) => `마스크 ${count}개`,
+    maskStagedEmpty: '실행할 마스크가 없습니다.',
+    maskManualHint: 'Enter 실행 · Esc 비우기',
+    maskOverlayOpacity: '마스크 표시 불투명도',
+    restoreManualHint: '여러 번 칠해 마스크를 만든 뒤 실행을 누르면 한 번에 AI 복원합니다.',
+    eraserManualHint: '여러 번 칠해 마스크를 만든 뒤 실행을 누르면 한 번에 지웁니다.',
     exportQuality: '내보내기 품질',
     exportQualityHint: '값이 높을수록 선명하지만 CPU/메모리 사용량이 증가합니다.',
     exportDialogTitle: '내보내기 설정',
@@ -648,6 +894,7 @@ const UI = {
     exportFormatHintWebp: 'WEBP · 고효율 압축 · 최신 브라우저 권장',
     exportFormatHintPdf: 'PDF · 문서 전달용 · 다중 페이지',
     exportFormatHintPptx: 'PPTX · 슬라이드 편집용 · 텍스트 보존',
+    exportPptxGradientFlattened: (count: number) => `PPTX는 텍스트 그라데이션을 지원하지 않아 텍스트 레이어 ${count}개를 그라데이션 시작 색상으로 내보냈습니다`,
     exportImageQuality: '이미지 품질',
     exportScope: '저장 범위',
     exportScopeCurrent: '현재 파일',
@@ -724,6 +971,27 @@ const UI = {
     macroRunSelected: '선택 파일 적용',
     macroHint: '최근 브러시 영역을 같은 위치에 반복 적용합니다.',
     macroSelectHint: 'Shift+클릭으로 여러 파일을 선택할 수 있습니다.',
+    ocrTitle: '텍스트 자동 감지',
+    ocrDetect: '현재 페이지 감지',
+    ocrDetectSelected: '선택 파일 감지',
+    ocrDetecting: '텍스트 감지 중...',
+    ocrWords: '단어',
+    ocrLines: '줄',
+    ocrSelectAll: '모두 선택',
+    ocrSelectNone: '선택 해제',
+    ocrToMask: '마스크로 변환',
+    ocrRestore: '선택 영역 복원',
+    ocrClear: '감지 결과 지우기',
+    ocrSummary: (selected: number, total: number) => `${total}개 중 ${selected}개 선택 · 상자를 클릭해 선택을 바꿉니다.`,
+    ocrDone: (boxes: number, pages: number) => `텍스트 감지 완료: ${pages}페이지에서 ${boxes}개`,
+    ocrNoneFound: '감지된 텍스트가 없습니다.',
+    ocrNothingSelected: '선택된 텍스트 상자가 없습니다.',
+    ocrMaskAdded: (count: number) => `텍스트 상자 ${count}개를 마스크에 추가했습니다.`,
+    ocrReplaceText: '편집 가능한 텍스트로 교체',
+    ocrReplaceHint: '감지된 상자(또는 모은 마스크 영역)를 지우고 같은 위치에 인식된 텍스트 레이어를 만듭니다.',
+    ocrReplaceNeedsRegion: '먼저 텍스트를 감지하거나 마스크로 영역을 지정하세요.',
+    ocrReplaced: (count: number) => `텍스트 레이어 ${count}개를 만들었습니다.`,
+    ocrHint: '한국어·영어 인식 데이터는 처음 실행할 때 내려받습니다.',
     macroNoStrokeRestore: '반복할 AI 복원 브러시 기록이 없습니다',
     macroNoStrokeEraser: '반복할 AI 지우개 브러시 기록이 없습니다',
     macroNoSelectedFiles: '선택된 파일이 없습니다',
@@ -739,6 +1007,42 @@ const UI = {
     alignLeft: '왼쪽',
     alignCenter: '가운데',
     alignRight: '오른쪽',
+    verticalText: '세로쓰기',
+    textStyles: '효과',
+    textOpacity: '텍스트 불투명도',
+    outlineWidth: '테두리 두께',
+    outlineJoin: '테두리 모서리',
+    outlineJoinMiter: '각지게',
+    outlineJoinRound: '둥글게',
+    outlineJoinBevel: '깎아서',
+    textShadow: '그림자',
+    shadowColor: '그림자 색상',
+    shadowBlur: '그림자 흐림',
+    shadowOffsetX: '그림자 가로 위치',
+    shadowOffsetY: '그림자 세로 위치',
+    shadowOpacity: '그림자 불투명도',
+    gradientFill: '그라데이션',
+    gradientNone: '단색',
+    gradientLinear: '선형',
+    gradientRadial: '원형',
+    gradientFrom: '시작 색상',
+    gradientTo: '끝 색상',
+    gradientAngle: '그라데이션 각도',
+    fixedWidthText: '고정 너비 (자동 줄바꿈)',
+    lineHeight: '줄 간격',
+    letterSpacing: '자간',
+    textFitToRegion: '인페인트 영역에 맞추기',
+    fontFamily: '글꼴',
+    fontUpload: '글꼴 업로드',
+    fontsAdded: (names: string) => `글꼴 추가: ${names}`,
+    textFitMode: '크기 맞춤',
+    textFitOff: '맞춤 없음',
+    textFitShrink: '넘치면 축소',
+    textFitGrow: '가득 채우기',
+    textFitMinSize: '최소 크기',
+    textFitMaxSize: '최대 크기',
+    textFitApplied: '텍스트를 영역에 맞췄습니다.',
+    textFitNoRegion: '맞출 영역이 없습니다. 마스크를 그리거나 먼저 인페인트하세요.',
     deleteText: '텍스트 삭제',
     selectTextHint: '캔버스의 텍스트를 클릭하거나 `텍스트 추가`를 눌러 편집하세요.',
     ready: '준비됨',
@@ -747,6 +1051,7 @@ const UI = {
     imported: (n: number) => `${n}개 페이지를 불러왔습니다`,
     maskEmpty: '브러시 표시가 없습니다',
     inpainting: 'AI 복원 실행 중…',
+    inpaintQueued: (position: number) => `서버 대기열 ${position}번째 대기 중…`,
     done: '완료',
     exporting: '내보내는 중…',
     exportedPng: 'PNG로 내보냈습니다',
@@ -779,6 +1084,22 @@ const UI = {
     settingsAiDefault: 'AI 엔진 기본값',
     settingsAiRestoreDefault: 'AI 복원 엔진 기본값',
     settingsBrushDefault: '기본 브러시 크기',
+    settingsInpaintStrategy: '큰 영역 복원 방식',
+    settingsInpaintStrategyAuto: '자동 (큰 영역은 타일 분할)',
+    settingsInpaintStrategyTile: '타일 분할 (겹침 + 경계 블렌딩)',
+    settingsInpaintStrategyResize: '축소 후 복원, 다시 확대',
+    settingsInpaintStrategyDirect: '원본 크기 그대로',
+    settingsInpaintStrategyHint: '대형 포스터나 긴 웹툰처럼 큰 영역을 복원할 때 메모리 사용과 품질을 조절합니다.',
+    settingsInpaintContext: '복원 주변 여백',
+    settingsInpaintContextRelative: '% (마스크 크기 기준)',
+    settingsInpaintContextAbsolute: 'px',
+    settingsInpaintContextHint: 'AI가 참고할 주변 영역입니다. 결과는 칠한 부분과 경계 몇 픽셀에만 적용됩니다.',
+    settingsInpaintMinCrop: '최소 복원 영역 크기',
+    settingsInpaintAspect: '복원 영역 비율',
+    settingsInpaintAspectFree: '마스크 비율 유지',
+    settingsInpaintAspectSquare: '정사각형',
+    settingsMaskEdge: '마스크 가장자리 (확장 / 페더)',
+    settingsMaskEdgeHint: 'AI 복원과 지우개 결과를 칠한 영역에만 합성할 때, 경계를 몇 px 넓히고 부드럽게 섞을지 정합니다.',
     settingsAutoSave: '자동 저장 주기(초)',
     settingsActivityLogLimit: '작업 로그 표시 개수',
     settingsCropHideDocks: '잘라내기 중 하단 도크 숨김',
@@ -885,11 +1206,53 @@ const UI = {
     errDataUrlConvertFailed: '데이터 URL로 변환하지 못했습니다.',
     errImportReadFile: '파일을 읽지 못했습니다.',
     errCanvasInitFailed: '캔버스를 초기화하지 못했습니다.',
+    errCanvasWorkerFailed: '이미지 처리 워커가 중단되었습니다. 다시 시도하세요.',
     errInpaintHttp: (status: string, detail: string) => `AI 지우기에 실패했습니다 (${status}). ${detail}`,
     errInpaintNonImage: (snippet: string) => `AI 복원 API 응답이 이미지가 아닙니다. (/api 경로/프록시 확인) ${snippet}`,
     errApiBadJson: 'AI API 응답 형식 오류 (/api 경로/프록시 확인)',
     errApiBadJsonWithSnippet: (snippet: string) => `AI API 응답 형식이 올바르지 않습니다. (/api 경로/프록시 확인) ${snippet}`,
     errApiActionHint: '백엔드 컨테이너와 /api 프록시 연결 상태를 확인하세요.',
+    errInpaintJobFailed: (detail: string) => `AI 복원 작업이 실패했습니다. ${detail}`,
+    errInpaintJobCancelled: 'AI 복원 작업이 취소되었습니다.',
+    errInpaintJobStatus: (status: string) => `AI 복원 서버가 알 수 없는 작업 상태를 보냈습니다: ${status}`,
+    errOcrFailed: (detail: string) => `텍스트 인식 실패: ${detail}`,
+    errTranslationParse: (detail: string) => `번역 파일을 읽을 수 없습니다: ${detail}`,
+    errTranslationFormat: '지원하지 않는 번역 파일 형식입니다. CSV, JSON, XLIFF(.xlf)만 가능합니다.',
+    translationTitle: '번역 가져오기/내보내기',
+    translationExport: '텍스트 내보내기',
+    translationImport: '번역 가져오기',
+    translationHint: '모든 파일의 텍스트 레이어를 ID로 내보내고, 번역된 파일을 가져오면 같은 ID의 텍스트를 한 번에 바꿉니다.',
+    translationNoTexts: '내보낼 텍스트 레이어가 없습니다.',
+    translationExported: (count: number, filename: string) => `텍스트 ${count}개 내보냄: ${filename}`,
+    translationImported: (texts: number, assets: number, unmatched: number) =>
+      `번역 가져오기 완료: ${assets}개 파일에서 텍스트 ${texts}개 변경${unmatched > 0 ? ` · 일치하지 않는 행 ${unmatched}개` : ''}`,
+    translationUnmatched: (count: number, ids: string) => `일치하지 않는 번역 행 ${count}개: ${ids}`,
+    errFindRegex: (detail: string) => `정규식 오류: ${detail}`,
+    findTitle: '찾기/바꾸기',
+    findQueryPlaceholder: '찾을 텍스트',
+    findReplacePlaceholder: '바꿀 텍스트',
+    findCaseSensitive: '대소문자 구분',
+    findRegex: '정규식',
+    findWholeWord: '단어 단위',
+    findResults: (count: number) => `일치 ${count}개`,
+    findNoResults: '일치하는 텍스트가 없습니다.',
+    findReplaceOne: '바꾸기',
+    findReplaceAll: '모두 바꾸기',
+    findRegexHint: '정규식 모드에서는 바꿀 텍스트에 $1 같은 그룹 참조를 쓸 수 있습니다.',
+    findReplacedAll: (count: number, locked: number) =>
+      `${count}곳 바꿈${locked > 0 ? ` · 잠긴 레이어 ${locked}개 건너뜀` : ''}`,
+    findLockedSkipped: (count: number) => `잠긴 레이어 ${count}개는 바꿀 수 없습니다.`,
+    projectSave: '프로젝트 저장',
+    projectOpen: '프로젝트 열기',
+    projectSaving: '프로젝트 저장 중...',
+    projectOpening: '프로젝트 여는 중...',
+    projectSaved: (pages: number, filename: string) => `프로젝트 저장 완료 (${pages}페이지): ${filename}`,
+    projectOpened: (pages: number, filename: string) => `프로젝트 열기 완료 (${pages}페이지): ${filename}`,
+    projectOpenConfirm: (count: number) => `현재 파일 ${count}개를 닫고 프로젝트를 열까요? (되돌리기로 복구할 수 있습니다)`,
+    errProjectInvalid: (detail: string) => `프로젝트 파일을 읽을 수 없습니다: ${detail}`,
+    errProjectVersion: (version: string) => `이 프로젝트는 더 새로운 버전(스키마 ${version})에서 저장되었습니다. 앱을 업데이트하세요.`,
+    errFontUnsupported: (name: string) => `지원하지 않는 글꼴 형식입니다: ${name} (TTF, OTF, WOFF2만 가능)`,
+    errFontLoadFailed: (name: string) => `글꼴을 불러오지 못했습니다: ${name}`,
     aiRuntimeDetail: (runtime: string, requested: string, selectedCount: number) => `실행: ${runtime} · 요청: ${requested} · 선택: ${selectedCount}개`,
     shortcutsHelp: '단축키 도움말',
     shortcutsToggleHint: '? 키로 열기/닫기',
@@ -901,7 +1264,7 @@ const UI = {
     shortcutsNoMatch: '검색 결과가 없습니다.',
     shortcutCopied: (keyLabel: string) => `단축키 복사: ${keyLabel}`,
     shortcutsClose: '닫기',
-    shortcutsList: 'B 복원 · E 지우개 · T 텍스트 · C 자르기 · M 이동 · Ctrl/Shift+휠 확대/축소 · Ctrl/Cmd+Z 되돌리기 · Shift+Ctrl/Cmd+Z 다시실행 · Shift+클릭 다중선택 · I 선택 반전 · Alt+L 로그 비우기 · Enter 자르기 적용 · P 자르기 미리보기 · 0 전체영역 · 방향키 이동 · Alt+방향키 크기조절 · [/] 비교 이동 · 1/2/3/R 비교 프리셋 · Home/End 극단 이동 · Esc 선택/자르기 해제',
+    shortcutsList: 'B 복원 · E 지우개 · T 텍스트 · C 자르기 · M 이동 · Ctrl/Shift+휠 확대/축소 · Ctrl/Cmd+Z 되돌리기 · Shift+Ctrl/Cmd+Z 다시실행 · Ctrl/Cmd+F 찾기/바꾸기 · Ctrl/Cmd+S 프로젝트 저장 · Shift+클릭 다중선택 · I 선택 반전 · Alt+L 로그 비우기 · Enter 자르기 적용/모은 마스크 실행 · P 자르기 미리보기 · 0 전체영역 · 방향키 이동 · Alt+방향키 크기조절 · [/] 비교 이동 · 1/2/3/R 비교 프리셋 · Home/End 극단 이동 · Esc 선택/자르기 해제',
     topVersionTag: (version: string, track: string) => `v${version} · ${track}`,
     macroConfirmAll: (count: number) => `전체 파일 ${count}개에 적용할까요?`,
     macroConfirmSelected: (count: number) => `선택 파일 ${count}개에 적용할까요?`,
@@ -911,6 +1274,26 @@ const UI = {
     restorePromptBody: '이전 편집 상태를 복원할까요?',
     restorePromptRestore: '복원하기',
     restorePromptDiscard: '건너뛰기',
+    recoveryBody: '복원할 자동 저장 시점을 고르세요. 최신 순으로 표시됩니다.',
+    recoverySlotMeta: (pages: number, texts: number, name: string) => `${pages}페이지 · 텍스트 ${texts}개 · ${name}`,
+    recoveryDeleteAll: '모두 삭제',
+    recoveryDeleteConfirm: (count: number) => `자동 저장 ${count}개를 모두 삭제할까요?`,
+    recoveryRestoring: '자동 저장 복원 중...',
+    recoveryRestored: (when: string) => `자동 저장 복원 완료: ${when}`,
+    recoveryOpen: '복구 목록',
+    settingsAutoSaveSlots: '자동 저장 보관 개수',
+    settingsAutoSaveSlotsHint: '브라우저 저장소(IndexedDB)에 최근 자동 저장을 이 개수만큼 보관합니다.',
+    autoSaveQuotaExceeded: '자동 저장 실패: 브라우저 저장 공간이 부족합니다. 보관 개수를 줄이거나 프로젝트 파일로 저장하세요.',
+    autoSaveFailed: (detail: string) => `자동 저장 실패: ${detail}`,
+    autoSaveMigrationFailed: (detail: string) => `이전 버전의 자동 저장을 옮기지 못했습니다. 다음 실행 때 다시 시도합니다: ${detail}`,
+    errStorageUnavailable: '브라우저 저장소(IndexedDB)를 사용할 수 없습니다.',
+    errStoredDataMissing: '저장된 데이터가 손상되었거나 삭제되었습니다.',
+    settingsHistoryBudget: '실행취소 메모리 한도',
+    settingsHistoryUsage: (used: string, budget: string) => `실행취소 전용 이미지 ${used} / ${budget} · 한도를 넘으면 오래된 단계부터 지웁니다.`,
+    settingsHistoryPersist: '실행취소 기록을 브라우저에 저장 (자동 저장을 복구하면 함께 복원)',
+    historyPersistQuotaExceeded: '실행취소 기록 저장 실패: 브라우저 저장 공간이 부족합니다. 메모리 한도를 줄여 보세요.',
+    historyPersistFailed: (detail: string) => `실행취소 기록 저장 실패: ${detail}`,
+    historyLoadFailed: (detail: string) => `저장된 실행취소 기록을 불러오지 못해 이번 세션에서는 기록을 저장하지 않습니다: ${detail}`,
     settingsName: 'sn0wmankr',
   },
   en: {
@@ -986,6 +1369,8 @@ const UI = {
     historyDeleteText: 'Delete text layer',
     historyMoveText: 'Move text layer',
     historyTransformText: 'Transform text layer',
+    historyResizeTextBox: 'Resize text box',
+    historyFitText: 'Fit text to region',
     historyClearTexts: 'Clear texts',
     historyToggleVisible: 'Toggle layer visibility',
     historyToggleLock: 'Toggle layer lock',
@@ -993,6 +1378,12 @@ const UI = {
     historyCrop: 'Crop asset',
     historyAiRestore: 'AI restore',
     historyAiEraser: 'AI eraser',
+    historyReplaceText: 'Replace text with layers',
+    historyImportTranslations: 'Import translations',
+    historyFindReplace: 'Replace text',
+    historyFindReplaceAll: 'Replace all text',
+    historyOpenProject: 'Open project',
+    historyRestoreAutoSave: 'Restore autosave',
     historyRemoveAsset: 'Remove asset',
     historyReorderAssets: 'Reorder assets',
     historyClearAssets: 'Clear all assets',
@@ -1006,8 +1397,34 @@ const UI = {
     italicLabel: 'Italic',
     opacity: 'Opacity',
     restoreHint: 'Paint with brush and release mouse to run AI restore automatically.',
+    inpaintModel: 'Restore model',
+    inpaintModelDefault: 'default',
+    inpaintModelClassicalHint: 'Classical OpenCV inpainting runs fast on CPU with no weights download, but large areas may look blurry.',
+    inpaintModelNeuralHint: 'AI models load their weights on first use, so the first run can be slow.',
     eraserHint: 'Paint with brush to instantly fill using nearby colors.',
     brushSize: 'Brush size',
+    maskShape: 'Selection',
+    maskShapeBrush: 'Brush',
+    maskShapeRect: 'Rect',
+    maskShapeEllipse: 'Ellipse',
+    maskShapeLasso: 'Lasso',
+    maskShapePolygon: 'Polygon',
+    maskShapeDragHint: 'Drag to mark a filled region.',
+    maskShapeLassoHint: 'Drag around the region; releasing the mouse closes the outline.',
+    maskShapePolygonHint: 'Click to add vertices; click the first point, double-click or press Enter to close. Esc cancels.',
+    maskApplyMode: 'Apply',
+    maskApplyAuto: 'On release',
+    maskApplyManual: 'Staged',
+    maskModeAdd: 'Add',
+    maskModeSubtract: 'Subtract',
+    maskRun: 'Run',
+    maskClear: 'Clear mask',
+    maskStagedCount: (count: number) => `${count} mask shape${count === 1 ? '' : 's'}`,
+    maskStagedEmpty: 'Nothing to run: the mask is empty.',
+    maskManualHint: 'Enter runs · Esc clears',
+    maskOverlayOpacity: 'Mask overlay opacity',
+    restoreManualHint: 'Build up the mask over several strokes, then press Run to restore it in one pass.',
+    eraserManualHint: 'Build up the mask over several strokes, then press Run to erase it in one pass.',
     exportQuality: 'Export quality',
     exportQualityHint: 'Higher = sharper exports, more CPU/memory.',
     exportDialogTitle: 'Export settings',
@@ -1018,6 +1435,7 @@ const UI = {
     exportFormatHintWebp: 'WEBP · high efficiency · modern browsers',
     exportFormatHintPdf: 'PDF · share-ready document · multipage',
     exportFormatHintPptx: 'PPTX · slide editing · keeps text layers',
+    exportPptxGradientFlattened: (count: number) => `PPTX has no gradient text fill; ${count} text layer(s) were saved in their gradient's start color`,
     exportImageQuality: 'Image quality',
     exportScope: 'Save scope',
     exportScopeCurrent: 'Current file',
@@ -1094,6 +1512,27 @@ const UI = {
     macroRunSelected: 'Apply to selected files',
     macroHint: 'Repeat the latest brush region at the same position.',
     macroSelectHint: 'Use Shift+click to select multiple files.',
+    ocrTitle: 'Auto-detect text',
+    ocrDetect: 'Detect on page',
+    ocrDetectSelected: 'Detect on selected',
+    ocrDetecting: 'Detecting text...',
+    ocrWords: 'Words',
+    ocrLines: 'Lines',
+    ocrSelectAll: 'Select all',
+    ocrSelectNone: 'Select none',
+    ocrToMask: 'Add to mask',
+    ocrRestore: 'Restore selected',
+    ocrClear: 'Clear detection',
+    ocrSummary: (selected: number, total: number) => `${selected} of ${total} boxes selected · click a box to toggle it.`,
+    ocrDone: (boxes: number, pages: number) => `Text detection done: ${boxes} boxes on ${pages} page(s)`,
+    ocrNoneFound: 'No text detected.',
+    ocrNothingSelected: 'No text boxes selected.',
+    ocrMaskAdded: (count: number) => `Added ${count} text boxes to the mask.`,
+    ocrReplaceText: 'Replace with editable text',
+    ocrReplaceHint: 'Erases the detected boxes (or the staged mask region) and adds text layers with the recognized text in their place.',
+    ocrReplaceNeedsRegion: 'Detect text or mark a region with the mask first.',
+    ocrReplaced: (count: number) => `Created ${count} text layer(s).`,
+    ocrHint: 'Korean/English recognition data downloads on first run.',
     macroNoStrokeRestore: 'No recent AI restore brush region to repeat',
     macroNoStrokeEraser: 'No recent AI eraser brush region to repeat',
     macroNoSelectedFiles: 'No selected files',
@@ -1109,6 +1548,42 @@ const UI = {
     alignLeft: 'Left',
     alignCenter: 'Center',
     alignRight: 'Right',
+    verticalText: 'Vertical text',
+    textStyles: 'Effects',
+    textOpacity: 'Text opacity',
+    outlineWidth: 'Outline width',
+    outlineJoin: 'Outline corners',
+    outlineJoinMiter: 'Sharp',
+    outlineJoinRound: 'Round',
+    outlineJoinBevel: 'Bevel',
+    textShadow: 'Drop shadow',
+    shadowColor: 'Shadow color',
+    shadowBlur: 'Shadow blur',
+    shadowOffsetX: 'Shadow X offset',
+    shadowOffsetY: 'Shadow Y offset',
+    shadowOpacity: 'Shadow opacity',
+    gradientFill: 'Gradient',
+    gradientNone: 'Solid',
+    gradientLinear: 'Linear',
+    gradientRadial: 'Radial',
+    gradientFrom: 'Start color',
+    gradientTo: 'End color',
+    gradientAngle: 'Gradient angle',
+    fixedWidthText: 'Fixed width (wrap lines)',
+    lineHeight: 'Line height',
+    letterSpacing: 'Letter spacing',
+    textFitToRegion: 'Fit to inpainted region',
+    fontFamily: 'Font',
+    fontUpload: 'Upload font',
+    fontsAdded: (names: string) => `Added fonts: ${names}`,
+    textFitMode: 'Fit size',
+    textFitOff: 'No fit',
+    textFitShrink: 'Shrink to fit',
+    textFitGrow: 'Grow to fit',
+    textFitMinSize: 'Min size',
+    textFitMaxSize: 'Max size',
+    textFitApplied: 'Fitted text to the region.',
+    textFitNoRegion: 'No region to fit into. Draw a mask or inpaint first.',
     deleteText: 'Delete text',
     selectTextHint: 'Click a text item on canvas or click `Add text`.',
     ready: 'Ready',
@@ -1117,6 +1592,7 @@ const UI = {
     imported: (n: number) => `Imported ${n} page(s)`,
     maskEmpty: 'No brush trace',
     inpainting: 'Running AI restore…',
+    inpaintQueued: (position: number) => `Waiting in server queue (#${position})…`,
     done: 'Done',
     exporting: 'Exporting…',
     exportedPng: 'Exported PNG',
@@ -1149,6 +1625,22 @@ const UI = {
     settingsAiDefault: 'Default AI engine',
     settingsAiRestoreDefault: 'Default AI Restore engine',
     settingsBrushDefault: 'Default brush size',
+    settingsInpaintStrategy: 'Large region restore',
+    settingsInpaintStrategyAuto: 'Auto (tile large regions)',
+    settingsInpaintStrategyTile: 'Tiles (overlap + feathered blend)',
+    settingsInpaintStrategyResize: 'Downscale, restore, upscale',
+    settingsInpaintStrategyDirect: 'Full size as-is',
+    settingsInpaintStrategyHint: 'Controls memory use and quality when restoring large areas such as posters or long webtoon strips.',
+    settingsInpaintContext: 'Restore context margin',
+    settingsInpaintContextRelative: '% of mask size',
+    settingsInpaintContextAbsolute: 'px',
+    settingsInpaintContextHint: 'Surrounding area the AI looks at. Results are only written to the painted pixels and a small feathered edge.',
+    settingsInpaintMinCrop: 'Minimum restore crop',
+    settingsInpaintAspect: 'Restore crop shape',
+    settingsInpaintAspectFree: 'Follow mask',
+    settingsInpaintAspectSquare: 'Square',
+    settingsMaskEdge: 'Mask edge (expand / feather)',
+    settingsMaskEdgeHint: 'When AI restore and eraser results are composited into the painted area, grow its edge by this many px and blend it softly.',
     settingsAutoSave: 'Autosave interval (sec)',
     settingsActivityLogLimit: 'Activity log item count',
     settingsCropHideDocks: 'Hide bottom docks while cropping',
@@ -1255,11 +1747,53 @@ const UI = {
     errDataUrlConvertFailed: 'Failed to convert to data URL.',
     errImportReadFile: 'Failed to read file.',
     errCanvasInitFailed: 'Failed to initialize canvas.',
+    errCanvasWorkerFailed: 'The image worker stopped. Please try again.',
     errInpaintHttp: (status: string, detail: string) => `AI erase request failed (${status}). ${detail}`,
     errInpaintNonImage: (snippet: string) => `AI restore API response is not an image. (check /api path/proxy) ${snippet}`,
     errApiBadJson: 'AI API response format error (check /api path/proxy)',
     errApiBadJsonWithSnippet: (snippet: string) => `AI API response format is invalid. (check /api path/proxy) ${snippet}`,
     errApiActionHint: 'Check backend container status and /api proxy routing.',
+    errInpaintJobFailed: (detail: string) => `AI restore job failed. ${detail}`,
+    errInpaintJobCancelled: 'AI restore job was cancelled.',
+    errInpaintJobStatus: (status: string) => `The AI restore server reported an unknown job status: ${status}`,
+    errOcrFailed: (detail: string) => `Text recognition failed: ${detail}`,
+    errTranslationParse: (detail: string) => `Could not read the translation file: ${detail}`,
+    errTranslationFormat: 'Unsupported translation file. Use CSV, JSON or XLIFF (.xlf).',
+    translationTitle: 'Translation import/export',
+    translationExport: 'Export texts',
+    translationImport: 'Import translation',
+    translationHint: 'Exports every text layer across files by id; importing a translated file updates matching ids in bulk.',
+    translationNoTexts: 'There are no text layers to export.',
+    translationExported: (count: number, filename: string) => `Exported ${count} texts: ${filename}`,
+    translationImported: (texts: number, assets: number, unmatched: number) =>
+      `Translation imported: ${texts} texts updated in ${assets} file(s)${unmatched > 0 ? ` · ${unmatched} unmatched row(s)` : ''}`,
+    translationUnmatched: (count: number, ids: string) => `${count} translation row(s) matched no text layer: ${ids}`,
+    errFindRegex: (detail: string) => `Invalid regular expression: ${detail}`,
+    findTitle: 'Find & replace',
+    findQueryPlaceholder: 'Find',
+    findReplacePlaceholder: 'Replace with',
+    findCaseSensitive: 'Match case',
+    findRegex: 'Regex',
+    findWholeWord: 'Whole word',
+    findResults: (count: number) => `${count} match(es)`,
+    findNoResults: 'No matching text.',
+    findReplaceOne: 'Replace',
+    findReplaceAll: 'Replace all',
+    findRegexHint: 'In regex mode the replacement can use group references such as $1.',
+    findReplacedAll: (count: number, locked: number) =>
+      `Replaced ${count} match(es)${locked > 0 ? ` · skipped ${locked} locked layer(s)` : ''}`,
+    findLockedSkipped: (count: number) => `${count} locked layer(s) cannot be replaced.`,
+    projectSave: 'Save project',
+    projectOpen: 'Open project',
+    projectSaving: 'Saving project...',
+    projectOpening: 'Opening project...',
+    projectSaved: (pages: number, filename: string) => `Project saved (${pages} page(s)): ${filename}`,
+    projectOpened: (pages: number, filename: string) => `Project opened (${pages} page(s)): ${filename}`,
+    projectOpenConfirm: (count: number) => `Close the ${count} open file(s) and open the project? (Undo brings them back)`,
+    errProjectInvalid: (detail: string) => `Cannot read the project file: ${detail}`,
+    errProjectVersion: (version: string) => `This project was saved by a newer version (schema ${version}). Update the app to open it.`,
+    errFontUnsupported: (name: string) => `Unsupported font format: ${name} (TTF, OTF or WOFF2 only)`,
+    errFontLoadFailed: (name: string) => `Could not load font: ${name}`,
     aiRuntimeDetail: (runtime: string, requested: string, selectedCount: number) => `Runtime: ${runtime} · Requested: ${requested} · Selected: ${selectedCount}`,
     shortcutsHelp: 'Shortcuts',
     shortcutsToggleHint: 'Toggle with ? key',
@@ -1271,7 +1805,7 @@ const UI = {
     shortcutsNoMatch: 'No matching shortcuts.',
     shortcutCopied: (keyLabel: string) => `Shortcut copied: ${keyLabel}`,
     shortcutsClose: 'Close',
-    shortcutsList: 'B Restore · E Eraser · T Text · C Crop · M Move · Ctrl/Shift+wheel Zoom · Ctrl/Cmd+Z Undo · Shift+Ctrl/Cmd+Z Redo · Shift+click Multi-select · I Invert selection · Alt+L Clear log · Enter Apply crop · P Preview crop · 0 Full frame · Arrows move · Alt+arrows resize · [/] Compare shift · 1/2/3/R Compare presets · Home/End extremes · Esc Clear selection/crop',
+    shortcutsList: 'B Restore · E Eraser · T Text · C Crop · M Move · Ctrl/Shift+wheel Zoom · Ctrl/Cmd+Z Undo · Shift+Ctrl/Cmd+Z Redo · Ctrl/Cmd+F Find & replace · Ctrl/Cmd+S Save project · Shift+click Multi-select · I Invert selection · Alt+L Clear log · Enter Apply crop/Run staged mask · P Preview crop · 0 Full frame · Arrows move · Alt+arrows resize · [/] Compare shift · 1/2/3/R Compare presets · Home/End extremes · Esc Clear selection/crop',
     topVersionTag: (version: string, track: string) => `v${version} · ${track}`,
     macroConfirmAll: (count: number) => `Apply to all ${count} files?`,
     macroConfirmSelected: (count: number) => `Apply to ${count} selected files?`,
@@ -1281,6 +1815,26 @@ const UI = {
     restorePromptBody: 'Do you want to restore your previous editing state?',
     restorePromptRestore: 'Restore',
     restorePromptDiscard: 'Skip',
+    recoveryBody: 'Pick an autosave to restore. Newest first.',
+    recoverySlotMeta: (pages: number, texts: number, name: string) => `${pages} page(s) · ${texts} text(s) · ${name}`,
+    recoveryDeleteAll: 'Delete all',
+    recoveryDeleteConfirm: (count: number) => `Delete all ${count} autosave(s)?`,
+    recoveryRestoring: 'Restoring autosave...',
+    recoveryRestored: (when: string) => `Autosave restored: ${when}`,
+    recoveryOpen: 'Recovery list',
+    settingsAutoSaveSlots: 'Autosaves to keep',
+    settingsAutoSaveSlotsHint: 'The most recent autosaves are kept in browser storage (IndexedDB), up to this many.',
+    autoSaveQuotaExceeded: 'Autosave failed: browser storage is full. Keep fewer autosaves or save a project file.',
+    autoSaveFailed: (detail: string) => `Autosave failed: ${detail}`,
+    autoSaveMigrationFailed: (detail: string) => `Could not move the autosave from an older version; it will be retried next time: ${detail}`,
+    errStorageUnavailable: 'Browser storage (IndexedDB) is unavailable.',
+    errStoredDataMissing: 'The saved data is damaged or was removed.',
+    settingsHistoryBudget: 'Undo memory budget',
+    settingsHistoryUsage: (used: string, budget: string) => `Images held only by undo: ${used} / ${budget} · oldest steps are dropped past the budget.`,
+    settingsHistoryPersist: 'Keep undo history in browser storage (restored with its autosave)',
+    historyPersistQuotaExceeded: 'Saving undo history failed: browser storage is full. Try a smaller memory budget.',
+    historyPersistFailed: (detail: string) => `Saving undo history failed: ${detail}`,
+    historyLoadFailed: (detail: string) => `Could not load the saved undo history, so it will not be saved over this session: ${detail}`,
     settingsName: 'sn0wmankr',
   },
 } as const
@@ -1307,8 +1861,22 @@ function App() {
     if (code === 'ERR_IMPORT_READ_FILE') return ui.errImportReadFile
     if (code === 'ERR_IMPORT_IMAGE_LOAD') return ui.errImageLoadFailed
     if (code === 'ERR_CANVAS_INIT_FAILED') return ui.errCanvasInitFailed
+    if (code === 'ERR_CANVAS_WORKER_FAILED') return ui.errCanvasWorkerFailed
     if (code === 'ERR_INPAINT_NON_IMAGE') return `${ui.errInpaintNonImage(detail)} ${ui.errApiActionHint}`
     if (code === 'ERR_API_BAD_JSON') return `${ui.errApiBadJsonWithSnippet(detail)} ${ui.errApiActionHint}`
+    if (code === 'ERR_INPAINT_JOB_FAILED') return ui.errInpaintJobFailed(detail)
+    if (code === 'ERR_INPAINT_JOB_CANCELLED') return ui.errInpaintJobCancelled
+    if (code === 'ERR_INPAINT_JOB_STATUS') return ui.errInpaintJobStatus(detail)
+    if (code === 'ERR_OCR_FAILED') return ui.errOcrFailed(detail)
+    if (code === 'ERR_TRANSLATION_PARSE') return ui.errTranslationParse(detail)
+    if (code === 'ERR_TRANSLATION_FORMAT') return ui.errTranslationFormat
+    if (code === 'ERR_FIND_REGEX') return ui.errFindRegex(detail)
+    if (code === 'ERR_PROJECT_INVALID') return ui.errProjectInvalid(detail)
+    if (code === 'ERR_PROJECT_VERSION') return ui.errProjectVersion(detail)
+    if (code === 'ERR_IDB_UNAVAILABLE') return ui.errStorageUnavailable
+    if (code === 'ERR_FONT_UNSUPPORTED') return ui.errFontUnsupported(detail)
+    if (code === 'ERR_FONT_LOAD_FAILED') return ui.errFontLoadFailed(detail)
+    if (code === 'ERR_AUTOSAVE_MISSING' || code === 'ERR_HISTORY_MISSING' || code === 'ERR_IMAGE_MISSING' || code === 'ERR_BLOB_READ') return ui.errStoredDataMissing
     if (code === 'ERR_INPAINT_HTTP') {
       const [status = '', ...tail] = rest
       return `${ui.errInpaintHttp(status, tail.join(':').trim())} ${ui.errApiActionHint}`
@@ -1317,8 +1885,10 @@ function App() {
   }
   const [assets, setAssets] = useState<PageAsset[]>([])
   const [activeId, setActiveId] = useState<string | null>(null)
-  const [assetListHistoryPast, setAssetListHistoryPast] = useState<AssetListHistoryEntry[]>([])
-  const [assetListHistoryFuture, setAssetListHistoryFuture] = useState<AssetListHistoryEntry[]>([])
+  const [assetListHistoryPast, setAssetListHistoryPast] = useState<HistoryRecord[]>([])
+  const [assetListHistoryFuture, setAssetListHistoryFuture] = useState<HistoryRecord[]>([])
+  // Uploaded fonts are a project-wide library, outside undo history.
+  const [customFonts, setCustomFonts] = useState<CustomFont[]>([])
   const active = useMemo(() => assets.find((a) => a.id === activeId) ?? null, [assets, activeId])
 
   const [tool, setTool] = useState<Tool>('restore')
@@ -1333,6 +1903,59 @@ function App() {
     }
     return DEFAULT_BRUSH_SIZE
   })
+  const [maskShapeTool, setMaskShapeTool] = useState<MaskShapeTool>(() => {
+    try {
+      const saved = window.localStorage.getItem('lamivi-mask-shape')
+      if (saved && (MASK_SHAPE_TOOLS as string[]).includes(saved)) return saved as MaskShapeTool
+    } catch {
+      // ignore
+    }
+    return 'brush'
+  })
+  const [maskApplyMode, setMaskApplyMode] = useState<MaskApplyMode>(() => {
+    try {
+      return window.localStorage.getItem('lamivi-mask-apply-mode') === 'manual' ? 'manual' : 'auto'
+    } catch {
+      return 'auto'
+    }
+  })
+  const [maskSubtract, setMaskSubtract] = useState(false)
+  const [maskOverlayOpacity, setMaskOverlayOpacity] = useState<number>(() => {
+    try {
+      const raw = window.localStorage.getItem('lamivi-mask-overlay-opacity')
+      const saved = Number(raw)
+      if (raw !== null && Number.isFinite(saved)) return clamp(Math.round(saved), 10, 100)
+    } catch {
+      // ignore
+    }
+    return DEFAULT_MASK_OVERLAY_OPACITY
+  })
+  const [translationFormat, setTranslationFormat] = useState<TranslationFormat>(() => {
+    try {
+      const saved = window.localStorage.getItem('lamivi-translation-format')
+      if (saved && (TRANSLATION_FORMATS as string[]).includes(saved)) return saved as TranslationFormat
+    } catch {
+      // ignore
+    }
+    return 'csv'
+  })
+  const [findOpen, setFindOpen] = useState(false)
+  const [findQuery, setFindQuery] = useState('')
+  const [findReplacement, setFindReplacement] = useState('')
+  const [findScope, setFindScope] = useState<ExportScope>('current')
+  const [findCaseSensitive, setFindCaseSensitive] = useState(false)
+  const [findRegex, setFindRegex] = useState(false)
+  const [findWholeWord, setFindWholeWord] = useState(false)
+  // Detected text boxes and the chosen box ids, keyed by asset id; kept until converted or cleared.
+  const [ocrResults, setOcrResults] = useState<Record<string, OcrBox[]>>({})
+  const [ocrSelection, setOcrSelection] = useState<Record<string, string[]>>({})
+  const [ocrGranularity, setOcrGranularity] = useState<OcrBoxKind>(() => {
+    try {
+      return window.localStorage.getItem('lamivi-ocr-granularity') === 'word' ? 'word' : 'line'
+    } catch {
+      return 'line'
+    }
+  })
   const [selectedTextId, setSelectedTextId] = useState<string | null>(null)
   const selectedText = useMemo(
     () => active?.texts.find((t) => t.id === selectedTextId) ?? null,
@@ -1348,6 +1971,16 @@ function App() {
   const [aiError, setAiError] = useState<string | null>(null)
   const [aiRequestedDevice, setAiRequestedDevice] = useState<'auto' | 'cpu' | 'cuda'>('auto')
   const [cudaAvailable, setCudaAvailable] = useState<boolean | null>(null)
+  const [aiModels, setAiModels] = useState<InpaintModelInfo[]>([])
+  const [aiDefaultModel, setAiDefaultModel] = useState<string | null>(null)
+  const [inpaintModel, setInpaintModel] = useState<string>(() => {
+    try {
+      return window.localStorage.getItem('lamivi-inpaint-model') ?? ''
+    } catch {
+      // ignore
+    }
+    return ''
+  })
   const [switchingDevice, setSwitchingDevice] = useState(false)
   const [exportDialogOpen, setExportDialogOpen] = useState(false)
   const [highlightExportFormat, setHighlightExportFormat] = useState(false)
@@ -1516,6 +2149,35 @@ function App() {
     }
     return DEFAULT_AUTOSAVE_SECONDS
   })
+  const [historyBudgetMb, setHistoryBudgetMb] = useState<number>(() => {
+    try {
+      const saved = Number(window.localStorage.getItem('lamivi-history-budget-mb'))
+      if (HISTORY_BUDGET_OPTIONS_MB.includes(saved)) return saved
+    } catch {
+      // ignore
+    }
+    return DEFAULT_HISTORY_BUDGET_MB
+  })
+  const [persistHistoryEnabled, setPersistHistoryEnabled] = useState<boolean>(() => {
+    try {
+      return window.localStorage.getItem('lamivi-history-persist') === '1'
+    } catch {
+      return false
+    }
+  })
+  // Why the stored undo history could not be loaded; reported once per load attempt.
+  const [historyLoadError, setHistoryLoadError] = useState<string | null>(null)
+  // Why the localStorage autosave from older versions could not be moved into a slot.
+  const [autoSaveMigrationError, setAutoSaveMigrationError] = useState<unknown>(null)
+  const [autoSaveSlotCount, setAutoSaveSlotCount] = useState<number>(() => {
+    try {
+      const saved = Number(window.localStorage.getItem('lamivi-autosave-slots'))
+      if (AUTOSAVE_SLOT_OPTIONS.includes(saved)) return saved
+    } catch {
+      // ignore
+    }
+    return DEFAULT_AUTOSAVE_SLOTS
+  })
   const [showShortcutTips, setShowShortcutTips] = useState<boolean>(() => {
     try {
       return window.localStorage.getItem('lamivi-shortcut-tips') !== '0'
@@ -1559,12 +2221,47 @@ function App() {
       return 'default'
     }
   })
+  const [inpaintContext, setInpaintContext] = useState<InpaintContextSettings>(() => {
+    try {
+      const raw = window.localStorage.getItem('lamivi-inpaint-context')
+      return raw ? parseInpaintContext(JSON.parse(raw)) : DEFAULT_INPAINT_CONTEXT
+    } catch {
+      return DEFAULT_INPAINT_CONTEXT
+    }
+  })
+  const [maskDilate, setMaskDilate] = useState<number>(() => {
+    try {
+      const saved = Number(window.localStorage.getItem('lamivi-mask-dilate') ?? DEFAULT_MASK_DILATE)
+      if (Number.isFinite(saved)) return clamp(Math.round(saved), 0, MASK_EDGE_MAX)
+    } catch {
+      // ignore
+    }
+    return DEFAULT_MASK_DILATE
+  })
+  const [maskFeather, setMaskFeather] = useState<number>(() => {
+    try {
+      const saved = Number(window.localStorage.getItem('lamivi-mask-feather') ?? DEFAULT_MASK_FEATHER)
+      if (Number.isFinite(saved)) return clamp(Math.round(saved), 0, MASK_EDGE_MAX)
+    } catch {
+      // ignore
+    }
+    return DEFAULT_MASK_FEATHER
+  })
+  const maskEdge = useMemo<MaskEdgeSettings>(() => ({ dilate: maskDilate, feather: maskFeather }), [maskDilate, maskFeather])
+  const [inpaintStrategy, setInpaintStrategy] = useState<InpaintStrategy>(() => {
+    try {
+      const saved = window.localStorage.getItem('lamivi-inpaint-strategy')
+      return saved === 'direct' || saved === 'tile' || saved === 'resize' ? saved : 'auto'
+    } catch {
+      return 'auto'
+    }
+  })
 
   const stageRef = useRef<Konva.Stage | null>(null)
   const transformerRef = useRef<Konva.Transformer | null>(null)
-  const textNodeRefs = useRef<Record<string, Konva.Text>>({})
+  const textNodeRefs = useRef<Record<string, Konva.Shape>>({})
   const { ref: wrapRef, size: wrapSize } = useElementSize<HTMLDivElement>()
-  const [baseImg, setBaseImg] = useState<HTMLImageElement | null>(null)
+  const [baseImg, setBaseImg] = useState<ImageBitmap | null>(null)
 
   const [dragGuides, setDragGuides] = useState<{ x?: number; y?: number }>({})
   const [dragMetrics, setDragMetrics] = useState<{ left: number; right: number; top: number; bottom: number } | null>(null)
@@ -1592,8 +2289,20 @@ function App() {
   const lastEraserMacroTemplateRef = useRef<NormalizedStroke[] | null>(null)
   const lastSelectionAnchorIdRef = useRef<string | null>(null)
   const activeRef = useRef<PageAsset | null>(null)
+  const lastAutoSavedAssetsRef = useRef<PageAsset[] | null>(null)
+  const lastAutoSavedFontsRef = useRef<CustomFont[] | null>(null)
+  const autoSaveErrorRef = useRef<string | null>(null)
+  // Set once this session has undo history of its own or has restored a slot's. Until then the
+  // stored history is left alone, since the user may still restore the slot it belongs to.
+  const historyOwnedRef = useRef(false)
+  // Set when the stored history could not be read; it is then left as it is instead of overwritten.
+  const historyLoadFailedRef = useRef(false)
+  const historyPersistRef = useRef<Promise<void>>(Promise.resolve())
+  const historyPersistErrorRef = useRef<string | null>(null)
   const assetsRef = useRef<PageAsset[]>([])
-  const textTransformBaseRef = useRef<{ textId: string; fontSize: number; rectHeight: number } | null>(null)
+  const customFontsRef = useRef<CustomFont[]>([])
+  const inpaintRegionsRef = useRef<Map<string, CropRect[]>>(new Map())
+  const textTransformBaseRef = useRef<{ textId: string; fontSize: number; rectHeight: number; resizeWidth: boolean } | null>(null)
   const preferredAppliedRef = useRef(false)
   const guideFlashTimerRef = useRef<number | null>(null)
   const tooltipMuteTimerRef = useRef<number | null>(null)
@@ -1602,8 +2311,12 @@ function App() {
   const quickBarOffsetsRef = useRef<Record<string, { x: number; y: number }>>({})
   const [guideFocusTarget, setGuideFocusTarget] = useState<'files' | 'tools' | 'canvas' | 'export' | null>(null)
   const cancelRequestedRef = useRef(false)
+  const cancelAbortRef = useRef<AbortController | null>(null)
   const [lastAutoSaveAt, setLastAutoSaveAt] = useState<number | null>(null)
-  const [pendingAutoRestore, setPendingAutoRestore] = useState<AutoSavePayload | null>(null)
+  // Newest slot holding this session's pages; persisted undo history is saved against it.
+  const [autoSaveSlotId, setAutoSaveSlotId] = useState<string | null>(null)
+  const [recoverySlots, setRecoverySlots] = useState<AutoSaveSlot[]>([])
+  const [recoveryOpen, setRecoveryOpen] = useState(false)
   const [cancelableTask, setCancelableTask] = useState(false)
   const [progressState, setProgressState] = useState<{
     label: string
@@ -1614,6 +2327,7 @@ function App() {
   const [quickBarOffset, setQuickBarOffset] = useState<{ x: number; y: number }>({ x: 0, y: 0 })
   const [draggingQuickBar, setDraggingQuickBar] = useState(false)
   const [quickBarCollapsed, setQuickBarCollapsed] = useState(false)
+  const [quickBarStylesOpen, setQuickBarStylesOpen] = useState(false)
   const quickBarDragRef = useRef<{ pointerX: number; pointerY: number; originX: number; originY: number } | null>(null)
   const movePanRef = useRef<{ x: number; y: number } | null>(null)
   const assetCardRefs = useRef<Record<string, HTMLDivElement | null>>({})
@@ -1677,6 +2391,19 @@ function App() {
     return assets
   }
 
+  const findPattern = useMemo(() => {
+    try {
+      return { pattern: buildFindPattern({ query: findQuery, caseSensitive: findCaseSensitive, regex: findRegex, wholeWord: findWholeWord }), error: null }
+    } catch (e) {
+      return { pattern: null, error: e instanceof Error ? e.message : String(e) }
+    }
+  }, [findQuery, findCaseSensitive, findRegex, findWholeWord])
+  const findMatches = useMemo(() => {
+    if (!findOpen || !findPattern.pattern) return []
+    const targets = findScope === 'current' ? (active ? [active] : []) : findScope === 'selected' ? selectedAssets : assets
+    return findTextMatches(targets, findPattern.pattern)
+  }, [findOpen, findPattern, findScope, active, selectedAssets, assets])
+
   function normalizeExportRatio(value: number) {
     const nearest = UPSCALE_OPTIONS.reduce((best, option) => {
       const bestDist = Math.abs(best - value)
@@ -1718,10 +2445,10 @@ function App() {
       setBaseImg(null)
       return
     }
-    loadHtmlImage(active.baseDataUrl)
+    getImageBitmap(active.imageId)
       .then((img) => setBaseImg(img))
       .catch(() => setBaseImg(null))
-  }, [active?.baseDataUrl])
+  }, [active?.imageId])
 
   useEffect(() => {
     activeRef.current = active
@@ -1731,6 +2458,10 @@ function App() {
     assetsRef.current = assets
   }, [assets])
 
+  useEffect(() => {
+    customFontsRef.current = customFonts
+  }, [customFonts])
+
   useEffect(() => {
     setSelectedAssetIds((prev) => prev.filter((id) => assets.some((a) => a.id === id)))
   }, [assets])
@@ -1870,6 +2601,79 @@ function App() {
     }
   }, [brushSize])
 
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-mask-shape', maskShapeTool)
+    } catch {
+      // ignore
+    }
+  }, [maskShapeTool])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-mask-apply-mode', maskApplyMode)
+    } catch {
+      // ignore
+    }
+  }, [maskApplyMode])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-mask-overlay-opacity', String(maskOverlayOpacity))
+    } catch {
+      // ignore
+    }
+  }, [maskOverlayOpacity])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-ocr-granularity', ocrGranularity)
+    } catch {
+      // ignore
+    }
+  }, [ocrGranularity])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-translation-format', translationFormat)
+    } catch {
+      // ignore
+    }
+  }, [translationFormat])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-inpaint-model', inpaintModel)
+    } catch {
+      // ignore
+    }
+  }, [inpaintModel])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-inpaint-strategy', inpaintStrategy)
+    } catch {
+      // ignore
+    }
+  }, [inpaintStrategy])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-inpaint-context', JSON.stringify(inpaintContext))
+    } catch {
+      // ignore
+    }
+  }, [inpaintContext])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-mask-dilate', String(maskDilate))
+      window.localStorage.setItem('lamivi-mask-feather', String(maskFeather))
+    } catch {
+      // ignore
+    }
+  }, [maskDilate, maskFeather])
+
   useEffect(() => {
     try {
       window.localStorage.setItem('lamivi-autosave-sec', String(clamp(Math.round(autoSaveSeconds), 0, 300)))
@@ -1878,6 +2682,88 @@ function App() {
     }
   }, [autoSaveSeconds])
 
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-autosave-slots', String(autoSaveSlotCount))
+    } catch {
+      // ignore
+    }
+  }, [autoSaveSlotCount])
+
+  useEffect(() => {
+    try {
+      window.localStorage.setItem('lamivi-history-budget-mb', String(historyBudgetMb))
+      window.localStorage.setItem('lamivi-history-persist', persistHistoryEnabled ? '1' : '0')
+    } catch {
+      // ignore
+    }
+  }, [historyBudgetMb, persistHistoryEnabled])
+
+  useEffect(() => {
+    const trimmed = trimHistoryToBudget(assetListHistoryPast, assetListHistoryFuture, assets, historyBudgetMb * 1024 * 1024)
+    if (trimmed.dropped > 0) {
+      setAssetListHistoryPast(trimmed.past)
+      setAssetListHistoryFuture(trimmed.future)
+    }
+  }, [assetListHistoryPast, assetListHistoryFuture, assets, historyBudgetMb])
+
+  // Releases images that no page, undo/redo entry or activity checkpoint references any more.
+  useEffect(() => {
+    // Loading (autosaves with their history, projects, imports) stores images before the entries
+    // that use them reach state; sweeping in between would drop them.
+    if (busy) return
+    const live = historyImageIds([...assetListHistoryPast, ...assetListHistoryFuture])
+    for (const asset of assets) {
+      live.add(asset.imageId)
+      if (asset.originalImageId) live.add(asset.originalImageId)
+    }
+    for (const item of toastLog) {
+      const imageId = item.snapshot ? snapshotImageId(item.snapshot) : null
+      if (imageId) live.add(imageId)
+    }
+    if (activityPreview?.snapshot) live.add(activityPreview.snapshot.imageId)
+    if (activityPreview?.current) live.add(activityPreview.current.imageId)
+    releaseUnusedImages(live, IMAGE_SWEEP_GRACE_MS)
+  }, [assets, assetListHistoryPast, assetListHistoryFuture, toastLog, activityPreview, busy])
+
+  useEffect(() => {
+    if (!historyLoadError) return
+    const detail = historyLoadError.startsWith('ERR_IDB_UNAVAILABLE')
+      ? ui.errStorageUnavailable
+      : historyLoadError.startsWith('ERR_HISTORY_MISSING')
+        ? ui.errStoredDataMissing
+        : historyLoadError
+    setStatus(ui.historyLoadFailed(detail))
+  }, [historyLoadError, ui])
+
+  useEffect(() => {
+    if (!persistHistoryEnabled) return
+    const past = assetListHistoryPast
+    const future = assetListHistoryFuture
+    const timer = window.setTimeout(() => {
+      // A slot's history that failed to load is kept rather than replaced with this session's.
+      if (historyLoadFailedRef.current) return
+      if (!historyOwnedRef.current && past.length === 0 && future.length === 0) return
+      historyOwnedRef.current = true
+      // Chained so an older write cannot commit after a newer one.
+      historyPersistRef.current = historyPersistRef.current
+        .then(() => persistHistory(past, future, autoSaveSlotId))
+        .then(() => {
+          historyPersistErrorRef.current = null
+        })
+        .catch((e: unknown) => {
+          const detail = e instanceof Error ? e.message : String(e)
+          const message = isQuotaError(e)
+            ? ui.historyPersistQuotaExceeded
+            : ui.historyPersistFailed(detail.startsWith('ERR_IDB_UNAVAILABLE') ? ui.errStorageUnavailable : detail)
+          if (historyPersistErrorRef.current === message) return
+          historyPersistErrorRef.current = message
+          setStatus(message)
+        })
+    }, HISTORY_PERSIST_DELAY_MS)
+    return () => window.clearTimeout(timer)
+  }, [assetListHistoryPast, assetListHistoryFuture, autoSaveSlotId, persistHistoryEnabled, ui])
+
   useEffect(() => {
     try {
       window.localStorage.setItem('lamivi-shortcut-tips', showShortcutTips ? '1' : '0')
@@ -1999,41 +2885,89 @@ function App() {
   }, [uiDensity])
 
   useEffect(() => {
-    try {
-      const raw = window.localStorage.getItem('lamivi-autosave')
-      if (!raw) return
-      const parsed = JSON.parse(raw) as { assets?: PageAsset[]; activeId?: string | null; ts?: number }
-      if (!Array.isArray(parsed.assets) || parsed.assets.length === 0) return
-      const ts = typeof parsed.ts === 'number' && Number.isFinite(parsed.ts) ? parsed.ts : Date.now()
-      setPendingAutoRestore({
-        assets: parsed.assets,
-        activeId: parsed.activeId ?? parsed.assets[0]?.id ?? null,
-        ts,
-      })
-    } catch {
-      // ignore
-    }
-  }, [])
-
-  useEffect(() => {
-    if (autoSaveSeconds <= 0) return
-    const timer = window.setInterval(() => {
+    let cancelled = false
+    void (async () => {
+      // Autosaves from before IndexedDB lived in one localStorage blob; move it into a slot once.
       try {
-        window.localStorage.setItem(
-          'lamivi-autosave',
-          JSON.stringify({
-            ts: Date.now(),
-            activeId,
-            assets,
-          }),
-        )
-        setLastAutoSaveAt(Date.now())
+        const raw = window.localStorage.getItem('lamivi-autosave')
+        if (raw) {
+          type LegacyAsset = Omit<PageAsset, 'imageId' | 'originalImageId'> & { baseDataUrl: string; originalDataUrl?: string }
+          const parsed = JSON.parse(raw) as { assets?: LegacyAsset[]; activeId?: string | null; ts?: number }
+          if (Array.isArray(parsed.assets) && parsed.assets.length > 0) {
+            const ts = typeof parsed.ts === 'number' && Number.isFinite(parsed.ts) ? parsed.ts : Date.now()
+            const assets: PageAsset[] = []
+            for (const { baseDataUrl, originalDataUrl, ...rest } of parsed.assets) {
+              const imageId = await putImageDataUrl(baseDataUrl)
+              assets.push({ ...rest, imageId, originalImageId: originalDataUrl ? await putImageDataUrl(originalDataUrl) : imageId })
+            }
+            await writeAutoSaveSnapshot({ assets, activeId: parsed.activeId ?? null, keep: DEFAULT_AUTOSAVE_SLOTS, ts })
+          }
+          // Only dropped once it is in a slot (or held nothing), so a failed move can be retried.
+          window.localStorage.removeItem('lamivi-autosave')
+        }
+      } catch (e) {
+        if (!cancelled) setAutoSaveMigrationError(e)
+      }
+      try {
+        const slots = await listAutoSaveSlots()
+        if (cancelled || slots.length === 0) return
+        setRecoverySlots(slots)
+        setLastAutoSaveAt(slots[0]!.ts)
+        if (assetsRef.current.length === 0) setRecoveryOpen(true)
       } catch {
         // ignore
       }
+    })()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  useEffect(() => {
+    if (!autoSaveMigrationError) return
+    const detail = autoSaveMigrationError instanceof Error ? autoSaveMigrationError.message : String(autoSaveMigrationError)
+    setStatus(
+      isQuotaError(autoSaveMigrationError)
+        ? ui.autoSaveQuotaExceeded
+        : ui.autoSaveMigrationFailed(detail.startsWith('ERR_IDB_UNAVAILABLE') ? ui.errStorageUnavailable : detail),
+    )
+  }, [autoSaveMigrationError, ui])
+
+  // Reads state through refs so editing does not keep restarting the interval.
+  useEffect(() => {
+    if (autoSaveSeconds <= 0) return
+    let saving = false
+    const timer = window.setInterval(() => {
+      const current = assetsRef.current
+      const fonts = customFontsRef.current
+      // Nothing new since the last slot, or nothing to save: keep older slots instead of
+      // rotating them out with duplicates or an empty workspace. Uploading a font counts as new.
+      if (saving || current.length === 0 || (current === lastAutoSavedAssetsRef.current && fonts === lastAutoSavedFontsRef.current)) return
+      saving = true
+      void writeAutoSaveSnapshot({ assets: current, activeId: activeRef.current?.id ?? null, fonts, keep: autoSaveSlotCount })
+        .then((slot) => {
+          lastAutoSavedAssetsRef.current = current
+          lastAutoSavedFontsRef.current = fonts
+          autoSaveErrorRef.current = null
+          setLastAutoSaveAt(slot.ts)
+          setAutoSaveSlotId(slot.id)
+        })
+        .catch((e: unknown) => {
+          const detail = e instanceof Error ? e.message : String(e)
+          const message = isQuotaError(e)
+            ? ui.autoSaveQuotaExceeded
+            : ui.autoSaveFailed(detail.startsWith('ERR_IDB_UNAVAILABLE') ? ui.errStorageUnavailable : detail)
+          // Report each distinct failure once, not on every tick.
+          if (autoSaveErrorRef.current === message) return
+          autoSaveErrorRef.current = message
+          setStatus(message)
+        })
+        .finally(() => {
+          saving = false
+        })
     }, autoSaveSeconds * 1000)
     return () => window.clearInterval(timer)
-  }, [autoSaveSeconds, assets, activeId])
+  }, [autoSaveSeconds, autoSaveSlotCount, ui])
 
   useEffect(() => {
     try {
@@ -2237,6 +3171,8 @@ function App() {
             warning?: string | null
             requestedDevice?: 'auto' | 'cpu' | 'cuda'
             cudaAvailable?: boolean | null
+            models?: unknown
+            defaultModel?: string | null
           }
         }
         const device = data.worker?.device
@@ -2258,6 +3194,11 @@ function App() {
           if (typeof cudaAvail === 'boolean' || cudaAvail === null) {
             setCudaAvailable(cudaAvail ?? null)
           }
+          const models = parseInpaintModels(data.worker?.models)
+          if (models.length > 0) {
+            setAiModels(models)
+            setAiDefaultModel(data.worker?.defaultModel ?? null)
+          }
         }
       } catch {
         // ignore
@@ -2330,6 +3271,24 @@ function App() {
         return
       }
 
+      if (findOpen && key === 'escape') {
+        e.preventDefault()
+        setFindOpen(false)
+        return
+      }
+
+      if (meta && key === 'f') {
+        e.preventDefault()
+        setFindOpen(true)
+        return
+      }
+
+      if (meta && key === 's') {
+        e.preventDefault()
+        void saveProject()
+        return
+      }
+
       if (showShortcutsHelp && key === 'escape') {
         e.preventDefault()
         setShowShortcutsHelp(false)
@@ -2354,6 +3313,32 @@ function App() {
         return
       }
 
+      if ((tool === 'restore' || tool === 'eraser') && polygonDraftRef.current) {
+        if (key === 'enter') {
+          e.preventDefault()
+          void finishMaskPolygon()
+          return
+        }
+        if (key === 'escape') {
+          e.preventDefault()
+          cancelMaskDraft()
+          return
+        }
+      }
+
+      if ((tool === 'restore' || tool === 'eraser') && maskApplyMode === 'manual' && active && active.maskStrokes.length > 0) {
+        if (key === 'enter') {
+          e.preventDefault()
+          void runStagedMask()
+          return
+        }
+        if (key === 'escape') {
+          e.preventDefault()
+          clearStagedMask()
+          return
+        }
+      }
+
       if (tool === 'crop' && active && cropRect) {
         if (key === 'escape') {
           e.preventDefault()
@@ -2478,7 +3463,7 @@ function App() {
 
     window.addEventListener('keydown', onKeyDown)
     return () => window.removeEventListener('keydown', onKeyDown)
-  }, [selectedText, active, cropRect, cropPreviewDataUrl, tool, busy, selectedAssetIds.length, ui.selectionCleared, ui.cancelCrop, exportDialogOpen, showShortcutsHelp])
+  }, [selectedText, active, cropRect, cropPreviewDataUrl, tool, busy, selectedAssetIds.length, ui.selectionCleared, ui.cancelCrop, exportDialogOpen, showShortcutsHelp, maskApplyMode, findOpen, inpaintModel, inpaintStrategy, brushSize, pendingExportFormat, pendingExportRatio, pendingExportQuality])
 
   useEffect(() => {
     return () => {
@@ -2498,12 +3483,14 @@ function App() {
         if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
           const pages = await importPdfFile(file)
           for (const p of pages) {
+            const imageId = putImage(p.blob)
             imported.push({
               id: uid('page'),
               name: p.name,
               width: p.width,
               height: p.height,
-              baseDataUrl: p.dataUrl,
+              imageId,
+              originalImageId: imageId,
               maskStrokes: [],
               groups: [{ ...DEFAULT_GROUP }],
               texts: [],
@@ -2511,12 +3498,14 @@ function App() {
           }
         } else if (file.type.startsWith('image/')) {
           const img = await importImageFile(file)
+          const imageId = putImage(img.blob)
           imported.push({
             id: uid('img'),
             name: img.name,
             width: img.width,
             height: img.height,
-            baseDataUrl: img.dataUrl,
+            imageId,
+            originalImageId: imageId,
             maskStrokes: [],
             groups: [{ ...DEFAULT_GROUP }],
             texts: [],
@@ -2537,58 +3526,186 @@ function App() {
     }
   }
 
-  function cloneAsset(asset: PageAsset): PageAsset {
+  function collectProjectSettings(): ProjectSettings {
     return {
-      ...asset,
-      maskStrokes: asset.maskStrokes.map((stroke) => ({
-        ...stroke,
-        points: [...stroke.points],
-      })),
-      groups: asset.groups.map((group) => ({ ...group })),
-      texts: asset.texts.map((text) => ({ ...text })),
+      inpaintModel,
+      inpaintStrategy,
+      maskApplyMode,
+      brushSize,
+      exportFormat: pendingExportFormat,
+      exportRatio: pendingExportRatio,
+      exportQuality: pendingExportQuality,
+    }
+  }
+
+  // Unknown or malformed values are ignored so a project from a newer build still opens.
+  function applyProjectSettings(settings: ProjectSettings) {
+    const { inpaintModel: model, inpaintStrategy: strategy, maskApplyMode: applyMode, brushSize: brush, exportFormat, exportRatio, exportQuality } = settings
+    if (typeof model === 'string') setInpaintModel(model)
+    if (strategy === 'auto' || strategy === 'direct' || strategy === 'tile' || strategy === 'resize') setInpaintStrategy(strategy)
+    if (applyMode === 'auto' || applyMode === 'manual') setMaskApplyMode(applyMode)
+    if (typeof brush === 'number' && Number.isFinite(brush)) setBrushSize(clamp(Math.round(brush), BRUSH_MIN, BRUSH_MAX))
+    if (exportFormat === 'png' || exportFormat === 'jpg' || exportFormat === 'webp' || exportFormat === 'pdf' || exportFormat === 'pptx') {
+      setPendingExportFormat(exportFormat)
+    }
+    if (typeof exportRatio === 'number') setPendingExportRatio(normalizeExportRatio(exportRatio))
+    if (typeof exportQuality === 'number' && Number.isFinite(exportQuality)) setPendingExportQuality(clamp(Math.round(exportQuality), 50, 100))
+  }
+
+  async function saveProject() {
+    // Read through refs: this also runs from the keyboard handler, which may hold an older render.
+    const targets = assetsRef.current
+    if (busy || targets.length === 0) return
+    setBusy(ui.projectSaving)
+    setStatus(ui.projectSaving)
+    setProgressState({ label: ui.projectSaving, value: 0, total: targets.length, indeterminate: false })
+    try {
+      const blob = await serializeProject({
+        assets: targets,
+        activeId: activeRef.current?.id ?? null,
+        settings: collectProjectSettings(),
+        fonts: customFontsRef.current,
+        appVersion: APP_VERSION,
+        onProgress: (done, total) => setProgressState({ label: ui.projectSaving, value: done, total, indeterminate: false }),
+      })
+      const filename = buildLamiviBundleFilename(targets[0]!.name, '_project', PROJECT_EXTENSION)
+      downloadBlob(blob, filename)
+      setStatus(ui.projectSaved(targets.length, filename))
+      setHasUnsavedChanges(false)
+      setDirtyChangeCount(0)
+      setLastDirtyAt(null)
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(null)
+      setProgressState(null)
+    }
+  }
+
+  async function openProject(files: FileList | null) {
+    const file = files?.[0]
+    if (!file || busy) return
+    if (assets.length > 0 && !window.confirm(ui.projectOpenConfirm(assets.length))) return
+    setBusy(ui.projectOpening)
+    setStatus(ui.projectOpening)
+    setProgressState({ label: ui.projectOpening, value: 0, total: 1, indeterminate: true })
+    try {
+      const project = await parseProject(file, (done, total) =>
+        setProgressState({ label: ui.projectOpening, value: done, total, indeterminate: false }),
+      )
+      const opened = project.assets.map((asset) => ({
+        ...asset,
+        groups: asset.groups.length > 0 ? asset.groups : [{ ...DEFAULT_GROUP }],
+      }))
+      await adoptCustomFonts(project.fonts)
+      pushAssetListHistory('Open project', snapshotAssetList())
+      setAssets(opened)
+      setActiveId(project.activeId)
+      setSelectedAssetIds([])
+      setSelectedTextId(null)
+      clearOcrResults()
+      applyProjectSettings(project.settings)
+      setStatus(ui.projectOpened(opened.length, file.name))
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(null)
+      setProgressState(null)
+    }
+  }
+
+  async function uploadFonts(files: FileList | null) {
+    const list = files ? Array.from(files) : []
+    if (list.length === 0) return
+    const added: CustomFont[] = []
+    try {
+      const taken = new Set([...BUILTIN_FONT_FAMILIES, ...customFontsRef.current.map((font) => font.family)])
+      for (const file of list) {
+        const font = await loadFontFile(file, taken)
+        taken.add(font.family)
+        added.push(font)
+      }
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    }
+    if (added.length === 0) return
+    setCustomFonts((prev) => [...prev, ...added])
+    // Uploading while a text is selected is almost always meant for that text.
+    if (selectedText && !selectedText.locked) updateSelectedText({ fontFamily: added[added.length - 1]!.family })
+    setStatus(ui.fontsAdded(added.map((font) => font.family).join(', ')))
+  }
+
+  // Registers fonts from an autosave or project. A font with the same family as one already loaded
+  // replaces it, since the opened pages were laid out with that file. A font that fails to load is
+  // logged and left out, so its texts fall back to the default fonts instead of blocking the pages.
+  // Returns the resulting font list.
+  async function adoptCustomFonts(candidates: CustomFont[]): Promise<CustomFont[]> {
+    if (candidates.length === 0) return customFontsRef.current
+    const results = await Promise.allSettled(candidates.map((font) => registerFont(font)))
+    const fonts: CustomFont[] = []
+    results.forEach((result, idx) => {
+      if (result.status === 'fulfilled') fonts.push(candidates[idx]!)
+      else appendActivityLog(localizeErrorMessage(result.reason instanceof Error ? result.reason.message : String(result.reason)))
+    })
+    if (fonts.length === 0) return customFontsRef.current
+    const families = new Set(fonts.map((font) => font.family))
+    const ids = new Set(fonts.map((font) => font.id))
+    for (const font of customFontsRef.current) {
+      if (families.has(font.family) && !ids.has(font.id)) unregisterFont(font.id)
     }
+    const next = [...customFontsRef.current.filter((font) => !families.has(font.family)), ...fonts]
+    customFontsRef.current = next
+    setCustomFonts(next)
+    return next
   }
 
+  // Page objects are never mutated in place, so a snapshot can share them with state.
   function snapshotAssetList(sourceAssets = assets, sourceActiveId = activeId): AssetListSnapshot {
     return {
-      assets: sourceAssets.map(cloneAsset),
+      assets: [...sourceAssets],
       activeId: sourceActiveId,
     }
   }
 
   function pushAssetListHistory(label: string, snapshot: AssetListSnapshot) {
-    const entry: AssetListHistoryEntry = {
-      label,
-      snapshot,
-      timestamp: Date.now(),
-    }
-    setAssetListHistoryPast((prev) => [...prev, entry].slice(-80))
+    const entry = recordHistory(label, snapshot.assets, snapshot.activeId)
+    setAssetListHistoryPast((prev) => [...prev, entry].slice(-HISTORY_MAX_ENTRIES))
     setAssetListHistoryFuture([])
   }
 
   function restoreAssetListSnapshot(snapshot: AssetListSnapshot) {
-    setAssets(snapshot.assets.map(cloneAsset))
+    setAssets(snapshot.assets)
     setActiveId(snapshot.activeId)
     setSelectedTextId(null)
   }
 
+  function restoreHistoryEntry(record: HistoryRecord): boolean {
+    try {
+      restoreAssetListSnapshot(restoreHistoryRecord(record))
+      return true
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+      return false
+    }
+  }
+
   function undoAssetListChange() {
     const prev = assetListHistoryPast[assetListHistoryPast.length - 1]
     if (!prev) return false
-    const current = snapshotAssetList()
-    restoreAssetListSnapshot(prev.snapshot)
+    const current = recordHistory(prev.label, assets, activeId)
+    if (!restoreHistoryEntry(prev)) return false
     setAssetListHistoryPast((past) => past.slice(0, -1))
-    setAssetListHistoryFuture((future) => [...future, { label: prev.label, snapshot: current, timestamp: Date.now() }].slice(-80))
+    setAssetListHistoryFuture((future) => [...future, current].slice(-HISTORY_MAX_ENTRIES))
     return true
   }
 
   function redoAssetListChange() {
     const next = assetListHistoryFuture[assetListHistoryFuture.length - 1]
     if (!next) return false
-    const current = snapshotAssetList()
-    restoreAssetListSnapshot(next.snapshot)
+    const current = recordHistory(next.label, assets, activeId)
+    if (!restoreHistoryEntry(next)) return false
     setAssetListHistoryFuture((future) => future.slice(0, -1))
-    setAssetListHistoryPast((past) => [...past, { label: next.label, snapshot: current, timestamp: Date.now() }].slice(-80))
+    setAssetListHistoryPast((past) => [...past, current].slice(-HISTORY_MAX_ENTRIES))
     return true
   }
 
@@ -2764,28 +3881,7 @@ function App() {
     if (rect.width < 2 || rect.height < 2) return
     setBusy(ui.applyCrop)
     try {
-      const source = await loadHtmlImage(active.baseDataUrl)
-      const canvas = document.createElement('canvas')
-      canvas.width = rect.width
-      canvas.height = rect.height
-      const ctx = canvas.getContext('2d')
-      if (!ctx) throw new Error(ERR_CANVAS_UNAVAILABLE)
-      ctx.clearRect(0, 0, rect.width, rect.height)
-      ctx.drawImage(
-        source,
-        rect.x,
-        rect.y,
-        rect.width,
-        rect.height,
-        0,
-        0,
-        rect.width,
-        rect.height,
-      )
-
-      const blob: Blob | null = await new Promise((resolve) => canvas.toBlob(resolve, 'image/png'))
-      if (!blob) throw new Error(ERR_PNG_CONVERT_FAILED)
-      const nextUrl = await blobToDataUrl(blob)
+      const nextImageId = putImage(await canvasJob('cropRegion', { image: storedImageRef(active.imageId), rect }))
 
       updateActiveWithHistory('Crop asset', (a) => {
         const right = rect.x + rect.width
@@ -2799,7 +3895,7 @@ function App() {
           ...a,
           width: rect.width,
           height: rect.height,
-          baseDataUrl: nextUrl,
+          imageId: nextImageId,
           texts: nextTexts,
           groups: nextGroups.length > 0 ? nextGroups : [{ ...DEFAULT_GROUP }],
           maskStrokes: [],
@@ -2821,25 +3917,8 @@ function App() {
     const rect = normalizeCropRect(cropRect, active.width, active.height)
     if (rect.width < 2 || rect.height < 2) return
     try {
-      const source = await loadHtmlImage(active.baseDataUrl)
-      const canvas = document.createElement('canvas')
-      canvas.width = rect.width
-      canvas.height = rect.height
-      const ctx = canvas.getContext('2d')
-      if (!ctx) throw new Error(ERR_CANVAS_UNAVAILABLE)
-      ctx.clearRect(0, 0, rect.width, rect.height)
-      ctx.drawImage(
-        source,
-        rect.x,
-        rect.y,
-        rect.width,
-        rect.height,
-        0,
-        0,
-        rect.width,
-        rect.height,
-      )
-      setCropPreviewDataUrl(canvas.toDataURL('image/png'))
+      const preview = await canvasJob('cropRegion', { image: storedImageRef(active.imageId), rect })
+      setCropPreviewDataUrl(await blobToDataUrl(preview))
       setCropPreviewCompare(55)
       setStatus(ui.cropPreviewTitle)
     } catch (e) {
@@ -2907,7 +3986,7 @@ function App() {
     return {
       width: a.width,
       height: a.height,
-      baseDataUrl: a.baseDataUrl,
+      imageId: a.imageId,
       texts: a.texts.map((t) => ({ ...t })),
       groups: a.groups.map((g) => ({ ...g })),
     }
@@ -2922,7 +4001,8 @@ function App() {
       const parsed = JSON.parse(raw) as PageSnapshot
       if (
         !parsed ||
-        typeof parsed.baseDataUrl !== 'string' ||
+        typeof parsed.imageId !== 'string' ||
+        !hasImage(parsed.imageId) ||
         typeof parsed.width !== 'number' ||
         typeof parsed.height !== 'number' ||
         !Array.isArray(parsed.texts) ||
@@ -2933,7 +4013,7 @@ function App() {
       return {
         width: parsed.width,
         height: parsed.height,
-        baseDataUrl: parsed.baseDataUrl,
+        imageId: parsed.imageId,
         texts: parsed.texts.map((t) => ({ ...t })),
         groups: parsed.groups.map((g) => ({ ...g })),
       }
@@ -2981,30 +4061,29 @@ function App() {
 
   const historyTimeline = useMemo(() => {
     if (assets.length === 0 && assetListHistoryPast.length === 0 && assetListHistoryFuture.length === 0) {
-      return [] as { key: string; label: string; active: boolean; snapshot: AssetListSnapshot | null; kind: 'past' | 'current' | 'future'; sourceIndex: number }[]
+      return [] as { key: string; label: string; active: boolean; record: HistoryRecord | null; kind: 'past' | 'current' | 'future'; sourceIndex: number }[]
     }
     const past = assetListHistoryPast.map((h, idx) => ({
       key: `p-${idx}-${h.timestamp}`,
       label: h.label,
       active: false,
-      snapshot: h.snapshot,
+      record: h,
       kind: 'past' as const,
       sourceIndex: idx,
     }))
-    const currentSnapshot = snapshotAssetList()
-    const current = [{ key: 'current', label: 'Current', active: true, snapshot: currentSnapshot, kind: 'current' as const, sourceIndex: -1 }]
+    const current = [{ key: 'current', label: 'Current', active: true, record: null, kind: 'current' as const, sourceIndex: -1 }]
     const future = [...assetListHistoryFuture]
       .reverse()
       .map((h, idx) => ({
         key: `f-${idx}-${h.timestamp}`,
         label: h.label,
         active: false,
-        snapshot: h.snapshot,
+        record: h,
         kind: 'future' as const,
         sourceIndex: assetListHistoryFuture.length - 1 - idx,
       }))
     return [...past, ...current, ...future]
-  }, [assets, activeId, assetListHistoryPast, assetListHistoryFuture])
+  }, [assets, assetListHistoryPast, assetListHistoryFuture])
 
   function localizeHistoryLabel(label: string) {
     const map: Record<string, string> = {
@@ -3015,6 +4094,8 @@ function App() {
       'Delete text layer': ui.historyDeleteText,
       'Move text layer': ui.historyMoveText,
       'Transform text layer': ui.historyTransformText,
+      'Resize text box': ui.historyResizeTextBox,
+      'Fit text to region': ui.historyFitText,
       'Clear texts': ui.historyClearTexts,
       'Toggle layer visibility': ui.historyToggleVisible,
       'Toggle layer lock': ui.historyToggleLock,
@@ -3022,6 +4103,12 @@ function App() {
       'Crop asset': ui.historyCrop,
       'AI restore': ui.historyAiRestore,
       'AI eraser': ui.historyAiEraser,
+      'Replace text with layers': ui.historyReplaceText,
+      'Import translations': ui.historyImportTranslations,
+      'Replace text': ui.historyFindReplace,
+      'Replace all text': ui.historyFindReplaceAll,
+      'Open project': ui.historyOpenProject,
+      'Restore autosave': ui.historyRestoreAutoSave,
       'Remove asset': ui.historyRemoveAsset,
       'Reorder assets': ui.historyReorderAssets,
       'Clear all assets': ui.historyClearAssets,
@@ -3048,18 +4135,17 @@ function App() {
     if (index < 0 || index >= historyTimeline.length) return
 
     const target = historyTimeline[index]
-    const targetSnapshot = target?.snapshot
-    if (!targetSnapshot) return
+    const targetRecord = target?.record
+    if (!targetRecord) return
 
-    const current = snapshotAssetList()
     const merged = [
       ...assetListHistoryPast,
-      { label: 'Jump checkpoint', snapshot: current, timestamp: Date.now() },
+      recordHistory('Jump checkpoint', assets, activeId),
       ...[...assetListHistoryFuture].reverse(),
     ]
     const nextPast = merged.slice(0, index)
     const nextFuture = merged.slice(index + 1).reverse()
-    restoreAssetListSnapshot(targetSnapshot)
+    if (!restoreHistoryEntry(targetRecord)) return
     setAssetListHistoryPast(nextPast)
     setAssetListHistoryFuture(nextFuture)
   }
@@ -3096,8 +4182,83 @@ function App() {
     if (!current || current.locked) return
     updateActiveWithHistory('Update text', (a) => ({
       ...a,
-      texts: a.texts.map((t) => (t.id === selectedTextId ? { ...t, ...patch } : t)),
+      texts: a.texts.map((t) => (t.id === selectedTextId ? patchTextItem(t, patch) : t)),
+    }))
+  }
+
+  // Fits the selected text into the staged mask's bounds, or else the inpainted region nearest to it.
+  function fitSelectedTextToRegion() {
+    if (!active || !selectedText || selectedText.locked) return
+    const staged = hasAdditiveMask(active.maskStrokes) ? getInpaintBounds(active.maskStrokes, active.width, active.height) : null
+    const region = staged ?? nearestInpaintedRegion(active, selectedText)
+    if (!region) {
+      setStatus(ui.textFitNoRegion)
+      return
+    }
+    const inset = Math.min(TEXT_FIT_REGION_INSET, region.width / 4, region.height / 4)
+    const fit: TextFit = {
+      mode: selectedText.fit?.mode ?? 'shrink',
+      x: region.x + inset,
+      y: region.y + inset,
+      width: region.width - inset * 2,
+      height: region.height - inset * 2,
+      minSize: selectedText.fit?.minSize ?? TEXT_FIT_MIN_SIZE,
+      maxSize: selectedText.fit?.maxSize ?? selectedText.fontSize,
+    }
+    const targetId = selectedText.id
+    updateActiveWithHistory('Fit text to region', (a) => ({
+      ...a,
+      texts: a.texts.map((t) => (t.id === targetId ? fitTextToBox({ ...t, fit }) : t)),
     }))
+    setStatus(ui.textFitApplied)
+  }
+
+  function nearestInpaintedRegion(asset: PageAsset, item: TextItem): CropRect | null {
+    const regions = inpaintRegionsRef.current.get(asset.id) ?? []
+    const box = estimateTextBoxPx(item.text, item, asset)
+    const cx = item.x + box.width / 2
+    const cy = item.y + box.height / 2
+    let best: CropRect | null = null
+    let bestDistance = Number.POSITIVE_INFINITY
+    for (const region of regions) {
+      const dx = Math.max(region.x - cx, 0, cx - (region.x + region.width))
+      const dy = Math.max(region.y - cy, 0, cy - (region.y + region.height))
+      const distance = Math.hypot(dx, dy)
+      // Later regions win ties, so a text inside overlapping regions takes the latest one.
+      if (distance <= bestDistance) {
+        best = region
+        bestDistance = distance
+      }
+    }
+    return best
+  }
+
+  function rememberInpaintedRegion(assetId: string, region: CropRect) {
+    const regions = [...(inpaintRegionsRef.current.get(assetId) ?? []), region]
+    inpaintRegionsRef.current.set(assetId, regions.slice(-INPAINT_REGION_MEMORY))
+  }
+
+  // Switches the selected text's fit mode. Turning fitting on without a region fits into the text's
+  // current box.
+  function setSelectedTextFitMode(mode: TextFitMode | null) {
+    if (!active || !selectedText) return
+    if (!mode) {
+      updateSelectedText({ fit: undefined })
+      return
+    }
+    const box = estimateTextBoxPx(selectedText.text, selectedText, active)
+    const fit: TextFit = selectedText.fit
+      ? { ...selectedText.fit, mode }
+      : {
+          mode,
+          x: selectedText.x,
+          y: selectedText.y,
+          width: box.width,
+          height: box.height,
+          minSize: TEXT_FIT_MIN_SIZE,
+          maxSize: mode === 'grow' ? TEXT_FIT_MAX_SIZE : selectedText.fontSize,
+        }
+    updateSelectedText({ fit })
   }
 
 function cssColorToPptHex(color: string): string {
@@ -3122,7 +4283,16 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
 }
 
   // Drawing state
-  const drawing = useRef<MaskStroke | null>(null)
+  const drawing = useRef<MaskShape | null>(null)
+  const maskShapeStartRef = useRef<{ x: number; y: number } | null>(null)
+  // Committed vertices of the click-polygon being built; the rendered draft adds the pointer as a rubber-band vertex.
+  const polygonDraftRef = useRef<number[] | null>(null)
+
+  useEffect(() => {
+    drawing.current = null
+    polygonDraftRef.current = null
+    maskShapeStartRef.current = null
+  }, [tool, maskShapeTool, activeId])
 
   function pointerToImageXY(stage: Konva.Stage, clampToBounds = true) {
     const p = stage.getPointerPosition()
@@ -3134,7 +4304,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
   }
 
   function updateBrushCursor(stage: Konva.Stage) {
-    if (!active || (tool !== 'restore' && tool !== 'eraser')) {
+    if (!active || (tool !== 'restore' && tool !== 'eraser') || maskShapeTool !== 'brush') {
       if (brushCursor.visible) {
         setBrushCursor((prev) => ({ ...prev, visible: false }))
       }
@@ -3267,10 +4437,108 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
 
     const xy = pointerToImageXY(stage)
     if (!xy) return
-    const id = uid('stroke')
-    const stroke: MaskStroke = { id, points: [xy.x, xy.y], strokeWidth: brushSize }
-    drawing.current = stroke
-    updateActive((a) => ({ ...a, maskStrokes: [stroke] }))
+    if (maskShapeTool === 'polygon') {
+      addPolygonVertex(xy.x, xy.y)
+      return
+    }
+    const subtract = maskApplyMode === 'manual' && maskSubtract
+    let shape: MaskShape
+    if (maskShapeTool === 'rect' || maskShapeTool === 'ellipse') {
+      maskShapeStartRef.current = { x: xy.x, y: xy.y }
+      shape = { id: uid('mask'), kind: maskShapeTool, x: xy.x, y: xy.y, width: 0, height: 0, subtract }
+    } else if (maskShapeTool === 'lasso') {
+      shape = { id: uid('mask'), kind: 'polygon', points: [xy.x, xy.y], subtract }
+    } else {
+      const stroke: MaskStroke = { id: uid('stroke'), points: [xy.x, xy.y], strokeWidth: brushSize, subtract }
+      shape = stroke
+    }
+    beginMaskShape(shape)
+  }
+
+  // Manual mode stages every shape on the asset; auto mode keeps only the one being drawn.
+  function beginMaskShape(shape: MaskShape) {
+    drawing.current = shape
+    updateActive((a) => ({ ...a, maskStrokes: maskApplyMode === 'manual' ? [...a.maskStrokes, shape] : [shape] }))
+  }
+
+  function discardMaskShape(id: string) {
+    updateActive((a) => ({ ...a, maskStrokes: a.maskStrokes.filter((s) => s.id !== id) }))
+  }
+
+  function addPolygonVertex(x: number, y: number) {
+    const draft = polygonDraftRef.current
+    if (!draft) {
+      polygonDraftRef.current = [x, y]
+      beginMaskShape({ id: uid('mask'), kind: 'polygon', points: [x, y], subtract: maskApplyMode === 'manual' && maskSubtract })
+      return
+    }
+    const closeDist = POLYGON_CLOSE_PX / Math.max(0.0001, fit.scale)
+    if (draft.length >= 6 && Math.hypot(x - draft[0], y - draft[1]) <= closeDist) {
+      void finishMaskPolygon()
+      return
+    }
+    polygonDraftRef.current = [...draft, x, y]
+    updatePolygonDraft(polygonDraftRef.current)
+  }
+
+  function updatePolygonDraft(points: number[]) {
+    const shape = drawing.current
+    if (!shape) return
+    updateActive((a) => ({
+      ...a,
+      maskStrokes: a.maskStrokes.map((s) => (s.id === shape.id ? { ...s, points } : s)),
+    }))
+  }
+
+  async function finishMaskPolygon() {
+    const draft = polygonDraftRef.current
+    const shape = drawing.current
+    polygonDraftRef.current = null
+    drawing.current = null
+    if (!draft || !shape) return
+    // A double-click lands two clicks on the closing vertex; drop repeated points before counting.
+    const points: number[] = []
+    for (let i = 0; i < draft.length; i += 2) {
+      const x = draft[i]
+      const y = draft[i + 1]
+      const n = points.length
+      if (n >= 2 && Math.hypot(x - points[n - 2], y - points[n - 1]) < 1) continue
+      points.push(x, y)
+    }
+    if (points.length < 6) {
+      discardMaskShape(shape.id)
+      return
+    }
+    // Replace the rubber-band preview with the cleaned outline before it is staged or applied.
+    const finished: MaskShape = { id: shape.id, kind: 'polygon', points, subtract: shape.subtract }
+    updateActive((a) => ({ ...a, maskStrokes: a.maskStrokes.map((s) => (s.id === finished.id ? finished : s)) }))
+    await commitMaskShape(finished)
+  }
+
+  function cancelMaskDraft() {
+    const shape = drawing.current
+    drawing.current = null
+    polygonDraftRef.current = null
+    maskShapeStartRef.current = null
+    if (shape) discardMaskShape(shape.id)
+  }
+
+  function clearStagedMask() {
+    cancelMaskDraft()
+    updateActive((a) => ({ ...a, maskStrokes: [] }))
+  }
+
+  async function commitMaskShape(shape: MaskShape) {
+    if (maskApplyMode === 'manual') return
+    if (tool === 'restore') {
+      enqueueInpaint([shape])
+      return
+    }
+    if (tool === 'eraser') {
+      if (!active) return
+      lastEraserMacroTemplateRef.current = normalizeStrokes([shape], active.width, active.height)
+      await applyLocalEraserForAsset(active.id, [shape])
+    }
   }
 
   function onStageMouseMove() {
@@ -3321,12 +4589,26 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     if (!d || (tool !== 'restore' && tool !== 'eraser')) return
     const xy = pointerToImageXY(stage)
     if (!xy) return
+    if (d.kind === 'rect' || d.kind === 'ellipse') {
+      const start = maskShapeStartRef.current
+      if (!start) return
+      const rect = rectFromPoints(start.x, start.y, xy.x, xy.y, active.width, active.height)
+      const next: MaskShape = { ...d, ...rect }
+      drawing.current = next
+      updateActive((a) => ({ ...a, maskStrokes: a.maskStrokes.map((s) => (s.id === d.id ? next : s)) }))
+      return
+    }
+    const draft = polygonDraftRef.current
+    if (draft) {
+      updatePolygonDraft([...draft, xy.x, xy.y])
+      return
+    }
     d.points = [...d.points, xy.x, xy.y]
     drawing.current = d
     updateActive((a) => ({
       ...a,
       maskStrokes: a.maskStrokes.map((s) =>
-        s.id === d.id ? { ...s, points: [...s.points, xy.x, xy.y] } : s,
+        s.id === d.id && s.kind !== 'rect' && s.kind !== 'ellipse' ? { ...s, points: [...s.points, xy.x, xy.y] } : s,
       ),
     }))
   }
@@ -3340,22 +4622,221 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       setCropHoverHandle(null)
       return
     }
-    const stroke = drawing.current
+    // Click-polygons stay open across clicks until closed explicitly.
+    if (polygonDraftRef.current) return
+    const shape = drawing.current
     drawing.current = null
-    if (!stroke) return
-    if (tool === 'restore') {
-      enqueueInpaint([stroke])
+    maskShapeStartRef.current = null
+    if (!shape) return
+    if ((shape.kind === 'rect' || shape.kind === 'ellipse') && (shape.width < 2 || shape.height < 2)) {
+      discardMaskShape(shape.id)
+      return
+    }
+    if (shape.kind === 'polygon' && shape.points.length < 6) {
+      discardMaskShape(shape.id)
+      return
+    }
+    await commitMaskShape(shape)
+  }
+
+  // Sends the whole staged mask (additions minus subtractions) through the active tool at once.
+  async function runStagedMask() {
+    if (!active || busy || polygonDraftRef.current) return
+    const shapes = active.maskStrokes
+    if (!hasAdditiveMask(shapes)) {
+      setStatus(ui.maskStagedEmpty)
       return
     }
     if (tool === 'eraser') {
-      if (!active) return
-      lastEraserMacroTemplateRef.current = normalizeStrokes([stroke], active.width, active.height)
-      await applyLocalEraserForAsset(active.id, [stroke])
+      lastEraserMacroTemplateRef.current = normalizeStrokes(shapes, active.width, active.height)
+      await applyLocalEraserForAsset(active.id, shapes)
+      return
+    }
+    enqueueInpaint(shapes)
+  }
+
+  async function runTextDetection(targets: PageAsset[]) {
+    if (targets.length === 0) {
+      setStatus(ui.macroNoSelectedFiles)
+      return
+    }
+    const langs: OcrLanguage[] = locale === 'ko' ? ['kor', 'eng'] : ['eng']
+    const total = targets.length
+    let found = 0
+    setBusy(ui.ocrDetecting)
+    setStatus(ui.ocrDetecting)
+    runCancelableStart()
+    setProgressState({ label: ui.ocrDetecting, value: 0, total, indeterminate: false })
+    try {
+      for (let i = 0; i < targets.length; i += 1) {
+        if (cancelRequestedRef.current) break
+        const asset = targets[i]
+        const boxes = await detectTextBoxes(getImageBlob(asset.imageId), {
+          langs,
+          onProgress: (progress) => setProgressState({ label: ui.ocrDetecting, value: i + progress, total, indeterminate: false }),
+        })
+        found += boxes.length
+        setOcrResults((prev) => ({ ...prev, [asset.id]: boxes }))
+        setOcrSelection((prev) => ({ ...prev, [asset.id]: boxes.map((box) => box.id) }))
+        setProgressState({ label: ui.ocrDetecting, value: i + 1, total, indeterminate: false })
+      }
+      setStatus(found > 0 ? ui.ocrDone(found, total) : ui.ocrNoneFound)
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(null)
+      setProgressState(null)
+      runCancelableEnd()
+    }
+  }
+
+  function chosenOcrBoxes(assetId: string): OcrBox[] {
+    const selected = new Set(ocrSelection[assetId] ?? [])
+    return (ocrResults[assetId] ?? []).filter((box) => box.kind === ocrGranularity && selected.has(box.id))
+  }
+
+  function toggleOcrBox(assetId: string, boxId: string) {
+    setOcrSelection((prev) => {
+      const current = prev[assetId] ?? []
+      return { ...prev, [assetId]: current.includes(boxId) ? current.filter((id) => id !== boxId) : [...current, boxId] }
+    })
+  }
+
+  function setAllOcrBoxesSelected(selected: boolean) {
+    setOcrSelection(
+      Object.fromEntries(Object.entries(ocrResults).map(([assetId, boxes]) => [assetId, selected ? boxes.map((box) => box.id) : []])),
+    )
+  }
+
+  function clearOcrResults(assetIds?: string[]) {
+    if (!assetIds) {
+      setOcrResults({})
+      setOcrSelection({})
+      return
+    }
+    setOcrResults((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !assetIds.includes(id))))
+    setOcrSelection((prev) => Object.fromEntries(Object.entries(prev).filter(([id]) => !assetIds.includes(id))))
+  }
+
+  // Stages the chosen boxes as rectangles on each asset's mask so they can be refined before running.
+  function convertOcrToMask() {
+    let count = 0
+    const converted: string[] = []
+    const shapesByAsset = new Map<string, MaskShape[]>()
+    for (const asset of assetsRef.current) {
+      const boxes = chosenOcrBoxes(asset.id)
+      if (boxes.length === 0) continue
+      shapesByAsset.set(asset.id, ocrBoxesToMaskShapes(boxes, asset.width, asset.height))
+      converted.push(asset.id)
+      count += boxes.length
+    }
+    if (count === 0) {
+      setStatus(ui.ocrNothingSelected)
+      return
+    }
+    setAssets((prev) => prev.map((a) => {
+      const shapes = shapesByAsset.get(a.id)
+      return shapes ? { ...a, maskStrokes: [...a.maskStrokes, ...shapes] } : a
+    }))
+    clearOcrResults(converted)
+    setMaskApplyMode('manual')
+    setStatus(ui.ocrMaskAdded(count))
+  }
+
+  // OCR -> inpaint -> editable text: uses the chosen detection boxes on the active page, or runs OCR
+  // inside the staged mask when nothing was detected beforehand.
+  async function replaceWithEditableText() {
+    if (!active || busy) return
+    const target = active
+    const detected = chosenOcrBoxes(target.id)
+    const stagedBounds = hasAdditiveMask(target.maskStrokes) ? getInpaintBounds(target.maskStrokes, target.width, target.height) : null
+    if (detected.length === 0 && !stagedBounds) {
+      setStatus(ui.ocrReplaceNeedsRegion)
+      return
+    }
+
+    setBusy(ui.ocrDetecting)
+    setStatus(ui.ocrDetecting)
+    runCancelableStart()
+    setProgressState({ label: ui.ocrDetecting, value: 0, total: 2, indeterminate: false })
+    try {
+      let boxes = detected
+      let mask: MaskShape[] = ocrBoxesToMaskShapes(detected, target.width, target.height)
+      if (boxes.length === 0 && stagedBounds) {
+        const found = await detectTextBoxes(getImageBlob(target.imageId), {
+          langs: locale === 'ko' ? ['kor', 'eng'] : ['eng'],
+          rect: stagedBounds,
+          onProgress: (progress) => setProgressState({ label: ui.ocrDetecting, value: progress, total: 2, indeterminate: false }),
+        })
+        boxes = found.filter((box) => box.kind === 'line')
+        mask = target.maskStrokes
+      }
+      if (boxes.length === 0 || cancelRequestedRef.current) {
+        if (boxes.length === 0) setStatus(ui.ocrNoneFound)
+        return
+      }
+
+      // Colours have to be sampled before the lettering is painted out.
+      const items = await ocrBoxesToTextItems(boxes, target.imageId, target.width, target.height)
+
+      setBusy(ui.inpainting)
+      setProgressState({ label: ui.inpainting, value: 1, total: 2, indeterminate: false })
+      const ok = await runInpaintForAsset(target.id, mask)
+      if (!ok) return
+      updateAssetByIdWithHistory(target.id, 'Replace text with layers', (a) => ({ ...a, texts: [...a.texts, ...items] }))
+      clearOcrResults([target.id])
+      setTool('text')
+      setSelectedTextId(items[0]?.id ?? null)
+      setStatus(ui.ocrReplaced(items.length))
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(null)
+      setProgressState(null)
+      runCancelableEnd()
+    }
+  }
+
+  async function restoreOcrBoxes() {
+    const jobs = assetsRef.current
+      .map((asset) => ({ asset, boxes: chosenOcrBoxes(asset.id) }))
+      .filter((job) => job.boxes.length > 0)
+    if (jobs.length === 0) {
+      setStatus(ui.ocrNothingSelected)
+      return
+    }
+    const total = jobs.length
+    let doneCount = 0
+    let successCount = 0
+    let failCount = 0
+    setBusy(ui.inpainting)
+    setStatus(ui.inpainting)
+    runCancelableStart()
+    setProgressState({ label: ui.inpainting, value: 0, total, indeterminate: false })
+    try {
+      for (const job of jobs) {
+        if (cancelRequestedRef.current) break
+        const ok = await runInpaintForAsset(job.asset.id, ocrBoxesToMaskShapes(job.boxes, job.asset.width, job.asset.height))
+        if (ok) {
+          successCount += 1
+          clearOcrResults([job.asset.id])
+        } else {
+          failCount += 1
+        }
+        doneCount += 1
+        setProgressState({ label: ui.inpainting, value: doneCount, total, indeterminate: false })
+      }
+      setStatus(`${ui.activitySummary(total, successCount, failCount)} · ${ui.done}`)
+    } finally {
+      setBusy(null)
+      setProgressState(null)
+      runCancelableEnd()
     }
   }
 
   function onStageMouseLeave() {
-    drawing.current = null
+    if (!polygonDraftRef.current) drawing.current = null
+    maskShapeStartRef.current = null
     cropStartRef.current = null
     cropResizeRef.current = null
     setCropHoverHandle(null)
@@ -3364,74 +4845,78 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     setDragMetrics(null)
   }
 
-  async function runInpaintForAsset(assetId: string, strokes: MaskStroke[]) {
+  async function runInpaintForAsset(assetId: string, strokes: MaskShape[]) {
     const target = assetsRef.current.find((asset) => asset.id === assetId)
     if (!target) return false
     if (strokes.length === 0) {
       return false
     }
 
-    const bounds = getInpaintBounds(strokes, target.width, target.height)
-    if (!bounds) {
+    const maskBounds = getInpaintBounds(strokes, target.width, target.height)
+    if (!maskBounds) {
       return false
     }
+    const bounds = expandInpaintContext(maskBounds, target.width, target.height, inpaintContext)
     try {
-      const translated = strokes.map((stroke) => ({
-        ...stroke,
-        points: stroke.points.map((value, idx) => (idx % 2 === 0 ? value - bounds.x : value - bounds.y)),
-      }))
-
-      const imageBlob = await renderAssetRegionToBlob(target, bounds)
-      const maskBlob = await renderMaskToPng({
-        width: bounds.width,
-        height: bounds.height,
+      const translated = translateStrokes(strokes, bounds.x, bounds.y)
+
+      const [imageBlob, maskBlob] = await Promise.all([
+        canvasJob('cropRegion', { image: storedImageRef(target.imageId), rect: bounds }),
+        canvasJob('maskPng', { width: bounds.width, height: bounds.height, strokes: translated }),
+      ])
+
+      const resultBlob = await inpaintViaJob({
+        image: imageBlob,
+        mask: maskBlob,
+        model: activeInpaintModel?.id,
+        strategy: inpaintStrategy,
+        onStatus: reportInpaintJobStatus,
+        signal: cancelAbortRef.current?.signal,
+      })
+      // Only the masked pixels and their feathered edge are written back into the page.
+      const merged = await canvasJob('mergePatch', {
+        image: storedImageRef(target.imageId),
+        rect: bounds,
+        patch: resultBlob,
         strokes: translated,
+        edge: maskEdge,
       })
-
-      const resultBlob = await inpaintViaApi({ image: imageBlob, mask: maskBlob })
-      const resultUrl = await mergeInpaintResult(target.baseDataUrl, bounds, resultBlob)
-      updateAssetByIdWithHistory(target.id, 'AI restore', (a) => ({ ...a, baseDataUrl: resultUrl, maskStrokes: [] }))
+      const resultId = putImage(merged)
+      const applied = new Set(strokes.map((s) => s.id))
+      updateAssetByIdWithHistory(target.id, 'AI restore', (a) => ({ ...a, imageId: resultId, maskStrokes: a.maskStrokes.filter((s) => !applied.has(s.id)) }))
+      rememberInpaintedRegion(target.id, maskBounds)
       return true
     } catch (e) {
+      if (isAbortError(e)) return false
       setStatus(localizeErrorMessage(String(e instanceof Error ? e.message : e)))
       return false
     }
   }
 
-  async function applyLocalEraserForAsset(assetId: string, strokes: MaskStroke[]) {
+  function reportInpaintJobStatus(job: InpaintJobInfo) {
+    const label = job.status === 'queued' && job.position !== null ? ui.inpaintQueued(job.position) : ui.inpainting
+    setProgressState((prev) => (prev && prev.label !== label ? { ...prev, label } : prev))
+  }
+
+  async function applyLocalEraserForAsset(assetId: string, strokes: MaskShape[]) {
     const target = assetsRef.current.find((asset) => asset.id === assetId)
     if (!target || strokes.length === 0) return false
     const bounds = getInpaintBounds(strokes, target.width, target.height)
     if (!bounds) return false
 
     try {
-      const baseImage = await loadHtmlImage(target.baseDataUrl)
-      const canvas = document.createElement('canvas')
-      canvas.width = target.width
-      canvas.height = target.height
-      const ctx = canvas.getContext('2d')
-    if (!ctx) throw new Error(ERR_CANVAS_UNAVAILABLE)
-
-      ctx.drawImage(baseImage, 0, 0)
-      const fillColor = dominantNeighborColor(ctx, target.width, target.height, bounds)
-      ctx.strokeStyle = fillColor
-      ctx.lineCap = 'round'
-      ctx.lineJoin = 'round'
-
-      for (const stroke of strokes) {
-        const pts = stroke.points
-        if (pts.length < 4) continue
-        ctx.lineWidth = stroke.strokeWidth
-        ctx.beginPath()
-        ctx.moveTo(pts[0] ?? 0, pts[1] ?? 0)
-        for (let i = 2; i < pts.length; i += 2) {
-          ctx.lineTo(pts[i] ?? 0, pts[i + 1] ?? 0)
-        }
-        ctx.stroke()
-      }
-
-      const resultUrl = canvas.toDataURL('image/png')
-      updateAssetByIdWithHistory(target.id, 'AI eraser', (a) => ({ ...a, baseDataUrl: resultUrl, maskStrokes: [] }))
+      // Fill through the same dilated/feathered matte the AI restore uses, limited to the mask's neighbourhood.
+      const pad = Math.ceil(maskEdge.dilate + maskEdge.feather)
+      const region = normalizeCropRect(
+        { x: bounds.x - pad, y: bounds.y - pad, width: bounds.width + pad * 2, height: bounds.height + pad * 2 },
+        target.width,
+        target.height,
+      )
+      const filled = await canvasJob('eraseFill', { image: storedImageRef(target.imageId), bounds, region, strokes, edge: maskEdge })
+      const resultId = putImage(filled)
+      const applied = new Set(strokes.map((s) => s.id))
+      updateAssetByIdWithHistory(target.id, 'AI eraser', (a) => ({ ...a, imageId: resultId, maskStrokes: a.maskStrokes.filter((s) => !applied.has(s.id)) }))
+      rememberInpaintedRegion(target.id, bounds)
       return true
     } catch (e) {
       setStatus(localizeErrorMessage(String(e instanceof Error ? e.message : e)))
@@ -3439,7 +4924,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     }
   }
 
-  function enqueueInpaint(strokes: MaskStroke[]) {
+  function enqueueInpaint(strokes: MaskShape[]) {
     if (!active) return
     const cloned = cloneStrokes(strokes)
     inpaintQueueRef.current.push({ assetId: active.id, strokes: cloned })
@@ -3571,8 +5056,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       let successCount = 0
       for (let idx = 0; idx < targets.length; idx += 1) {
         const target = targets[idx]!
-        const dataUrl = await renderAssetToDataUrl(target, pixelRatio)
-        const blob = await dataUrlToBlob(dataUrl)
+        const blob = await renderAssetToBlob(target, pixelRatio)
         const fileName = buildLamiviFilename(target.name, 'png')
         downloadBlob(blob, fileName)
         lastName = fileName
@@ -3598,8 +5082,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       let successCount = 0
       for (let idx = 0; idx < targets.length; idx += 1) {
         const target = targets[idx]!
-        const dataUrl = await renderAssetToDataUrl(target, pixelRatio, 'image/jpeg', quality)
-        const blob = await dataUrlToBlob(dataUrl)
+        const blob = await renderAssetToBlob(target, pixelRatio, 'image/jpeg', quality)
         const fileName = buildLamiviFilename(target.name, 'jpg')
         downloadBlob(blob, fileName)
         lastName = fileName
@@ -3625,8 +5108,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       let successCount = 0
       for (let idx = 0; idx < targets.length; idx += 1) {
         const target = targets[idx]!
-        const dataUrl = await renderAssetToDataUrl(target, pixelRatio, 'image/webp', quality)
-        const blob = await dataUrlToBlob(dataUrl)
+        const blob = await renderAssetToBlob(target, pixelRatio, 'image/webp', quality)
         const fileName = buildLamiviFilename(target.name, 'webp')
         downloadBlob(blob, fileName)
         lastName = fileName
@@ -3643,6 +5125,50 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     }
   }
 
+  // Embeds the uploaded TrueType fonts the pages use and returns their families. jsPDF cannot embed
+  // CFF-based OTF or WOFF2 files, so text in those fonts is only in the page raster.
+  async function embedPdfFonts(pdf: jsPDF, targets: PageAsset[]): Promise<Set<string>> {
+    const used = new Set(targets.flatMap((asset) => asset.texts.filter((t) => t.visible).map((t) => t.fontFamily)))
+    const embedded = new Set<string>()
+    for (const font of customFontsRef.current) {
+      if (!used.has(font.family) || !(await isTrueTypeFont(font))) continue
+      try {
+        const base64 = (await blobToDataUrl(font.blob)).split(',')[1] ?? ''
+        // Keyed by id: two uploads may share a file name but never an id.
+        const vfsName = `${font.id}.ttf`
+        pdf.addFileToVFS(vfsName, base64)
+        pdf.addFont(vfsName, font.family, 'normal', undefined, 'Identity-H')
+        embedded.add(font.family)
+      } catch {
+        // A font jsPDF cannot parse still shows in the raster; only its text layer is skipped.
+      }
+    }
+    return embedded
+  }
+
+  // Writes horizontal text set in an embedded font over the page raster as invisible text, so the
+  // PDF carries the font and its text can be searched and copied.
+  function addPdfTextLayer(pdf: jsPDF, asset: PageAsset, fonts: Set<string>) {
+    for (const t of asset.texts) {
+      if (!t.visible || t.writingMode === 'vertical' || !fonts.has(t.fontFamily) || !t.text.trim()) continue
+      const lines = textLines(t.text, t)
+      const block = measureTextBlock(t)
+      const width = t.width ?? block.width
+      const x = t.align === 'center' ? t.x + width / 2 : t.align === 'right' ? t.x + width : t.x
+      pdf.setFont(t.fontFamily, 'normal')
+      // jsPDF font sizes are in points; the document unit is px.
+      pdf.setFontSize(t.fontSize * 0.75)
+      pdf.text(lines, x, t.y, {
+        align: t.align,
+        baseline: 'top',
+        angle: -t.rotation,
+        lineHeightFactor: resolveTextLineHeight(t),
+        charSpace: resolveTextLetterSpacing(t),
+        renderingMode: 'invisible',
+      })
+    }
+  }
+
   async function exportPdfSet(targets: PageAsset[], pixelRatio: number, scope: ExportScope) {
     if (targets.length === 0) return
     setBusy(ui.exportingPdf)
@@ -3651,11 +5177,12 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     setProgressState({ label: ui.exportingPdf, value: 0, total: Math.max(1, targets.length), indeterminate: false })
     try {
       let pdf: jsPDF | null = null
+      let pdfFonts: Set<string> | null = null
 
       for (let idx = 0; idx < targets.length; idx++) {
         if (cancelRequestedRef.current) break
         const a = targets[idx]!
-        const dataUrl = await renderAssetToDataUrl(a, pixelRatio, 'image/jpeg', 0.92)
+        const jpeg = new Uint8Array(await (await renderAssetToBlob(a, pixelRatio, 'image/jpeg', 0.92)).arrayBuffer())
 
         const pageW = a.width
         const pageH = a.height
@@ -3668,7 +5195,9 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
         } else {
           pdf.addPage([pageW, pageH], pageW >= pageH ? 'landscape' : 'portrait')
         }
-        pdf.addImage(dataUrl, 'JPEG', 0, 0, pageW, pageH)
+        pdf.addImage(jpeg, 'JPEG', 0, 0, pageW, pageH)
+        pdfFonts ??= await embedPdfFonts(pdf, targets)
+        addPdfTextLayer(pdf, a, pdfFonts)
         setProgressState({ label: ui.exportingPdf, value: idx + 1, total: Math.max(1, targets.length), indeterminate: false })
       }
 
@@ -3703,12 +5232,14 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     try {
       const pptx = new PptxGenJS()
       pptx.layout = 'LAYOUT_WIDE'
+      let flattenedGradients = 0
       for (let idx = 0; idx < targets.length; idx += 1) {
         if (cancelRequestedRef.current) break
         const asset = targets[idx]!
         const slide = pptx.addSlide()
         const baseOnly = { ...asset, texts: [] }
-        const dataUrl = await renderAssetToDataUrl(baseOnly, pixelRatio, 'image/png')
+        // PptxGenJS only takes images as data URLs.
+        const dataUrl = await blobToDataUrl(await renderAssetToBlob(baseOnly, pixelRatio, 'image/png'))
         slide.addImage({ data: dataUrl, x: 0, y: 0, w: 13.33, h: 7.5 })
         const sx = 13.33 / Math.max(1, asset.width)
         const sy = 7.5 / Math.max(1, asset.height)
@@ -3718,24 +5249,48 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
           const text = t.text?.trim()
           if (!text) continue
           const box = estimateTextBoxPx(text, t, asset)
+          const vertical = t.writingMode === 'vertical'
+          const fontSize = clamp(t.fontSize * 0.75, 6, 220)
           const x = clamp(t.x, 0, asset.width) * sx
           const y = clamp(t.y, 0, asset.height) * sy
           const w = clamp(box.width, 8, asset.width) * sx
           const h = clamp(box.height, 8, asset.height) * sy
-          slide.addText(text, {
+          // PptxGenJS can only fill text with a solid colour, so a gradient goes out as its start
+          // colour and the export log says how many layers lost theirs.
+          if (t.gradient) flattenedGradients += 1
+          // Horizontal text goes in as the lines the stage draws, with PowerPoint's own wrapping off.
+          slide.addText(vertical ? text : textLines(text, t).join('\n'), {
             x,
             y,
             w,
             h,
             fontFace: t.fontFamily,
-            fontSize: clamp(t.fontSize * 0.75, 6, 220),
-            color: cssColorToPptHex(t.fill),
+            fontSize,
+            lineSpacing: fontSize * (vertical ? (t.lineHeight ?? VERTICAL_COLUMN_PITCH) : resolveTextLineHeight(t)),
+            ...(resolveTextLetterSpacing(t) ? { charSpacing: resolveTextLetterSpacing(t) * 0.75 } : {}),
+            color: cssColorToPptHex(t.gradient?.from ?? t.fill),
+            transparency: Math.round((1 - clamp(t.opacity, 0, 1)) * 100),
+            ...(resolveTextOutlineWidth(t) > 0 ? { outline: { color: cssColorToPptHex(resolveTextOutlineColor(t)), size: resolveTextOutlineWidth(t) * 0.75 } } : {}),
+            ...(t.shadow
+              ? {
+                  shadow: {
+                    type: 'outer' as const,
+                    color: cssColorToPptHex(t.shadow.color),
+                    opacity: clamp(t.shadow.opacity, 0, 1),
+                    blur: clamp(t.shadow.blur * 0.75, 0, 100),
+                    offset: clamp(Math.hypot(t.shadow.offsetX, t.shadow.offsetY) * 0.75, 0, 200),
+                    angle: Math.round(((Math.atan2(t.shadow.offsetY, t.shadow.offsetX) * 180) / Math.PI + 360) % 360),
+                  },
+                }
+              : {}),
             bold: t.fontWeight >= 600,
             italic: t.fontStyle === 'italic',
             align: t.align,
             breakLine: true,
             margin: 0,
             valign: 'top',
+            // East Asian vertical: upright CJK in right-to-left columns; PowerPoint rotates the punctuation.
+            ...(vertical ? { vert: 'eaVert' as const } : { wrap: false }),
           })
         }
         setProgressState({ label: ui.exporting, value: idx + 1, total: Math.max(1, targets.length), indeterminate: false })
@@ -3751,6 +5306,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
         : buildLamiviBundleFilename(first.name, `_${scope}`, 'pptx')
       downloadBlob(out, filename)
       setStatus(ui.exportedFile(filename))
+      if (flattenedGradients > 0) appendActivityLog(ui.exportPptxGradientFlattened(flattenedGradients))
       setHasUnsavedChanges(false)
       setDirtyChangeCount(0)
       setLastDirtyAt(null)
@@ -3776,7 +5332,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     const next = editingValue
     updateActiveWithHistory('Edit text inline', (a) => ({
       ...a,
-      texts: a.texts.map((t) => (t.id === editedId ? { ...t, text: next } : t)),
+      texts: a.texts.map((t) => (t.id === editedId ? patchTextItem(t, { text: next }) : t)),
     }))
     setEditingTextId(null)
   }
@@ -3829,7 +5385,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     setEditingTextId(null)
   }
 
-  function snapTextDuringDrag(node: Konva.Text, asset: PageAsset) {
+  function snapTextDuringDrag(node: Konva.Shape, asset: PageAsset) {
     const threshold = 8
     const rect = node.getClientRect({ relativeTo: node.getParent() ?? undefined })
     const centerX = rect.x + rect.width / 2
@@ -3880,8 +5436,109 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     : activeCropHandle === 'ne' || activeCropHandle === 'sw'
       ? 'nesw-resize'
       : 'crosshair'
+  const maskShapeLabels: Record<MaskShapeTool, string> = {
+    brush: ui.maskShapeBrush,
+    rect: ui.maskShapeRect,
+    ellipse: ui.maskShapeEllipse,
+    lasso: ui.maskShapeLasso,
+    polygon: ui.maskShapePolygon,
+  }
+  // The overlay layer carries the opacity, so shapes are painted opaque and subtractions punch through.
+  const maskFill = (shape: MaskShape) => (shape.subtract ? 'black' : 'rgb(255, 86, 86)')
+  const maskComposite = (shape: MaskShape) => (shape.subtract ? 'destination-out' : 'source-over')
+  const maskShapeHint = maskShapeTool === 'polygon' ? ui.maskShapePolygonHint : maskShapeTool === 'lasso' ? ui.maskShapeLassoHint : ui.maskShapeDragHint
+  const stagedMaskCount = active?.maskStrokes.length ?? 0
+  const ocrPageCount = Object.keys(ocrResults).length
+  const ocrVisibleCount = Object.values(ocrResults).reduce((sum, boxes) => sum + boxes.filter((box) => box.kind === ocrGranularity).length, 0)
+  const ocrChosenCount = Object.keys(ocrResults).reduce((sum, assetId) => sum + chosenOcrBoxes(assetId).length, 0)
+  const activeOcrBoxes = active && tool === 'restore' ? (ocrResults[active.id] ?? []).filter((box) => box.kind === ocrGranularity) : []
+  const activeOcrSelection = new Set(active ? ocrSelection[active.id] ?? [] : [])
+  const activeOcrChosenCount = active ? chosenOcrBoxes(active.id).length : 0
+  // Number field for the text quick bar's style row.
+  const quickNumberField = (label: string, glyph: string, value: number, min: number, max: number, step: number, onChange: (value: number) => void) => (
+    <label className="quickSpacing" title={label} aria-label={label}>
+      <span aria-hidden="true">{glyph}</span>
+      <input
+        type="number"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        disabled={!selectedText || selectedText.locked}
+        onChange={(e) => {
+          const next = Number(e.target.value)
+          if (Number.isFinite(next)) onChange(clamp(next, min, max))
+        }}
+      />
+    </label>
+  )
+
+  const maskEditControls = (
+    <>
+      <div className="label">{ui.maskShape}</div>
+      <div className="maskShapeRow">
+        {MASK_SHAPE_TOOLS.map((shapeTool) => (
+          <button
+            key={shapeTool}
+            className={`btn ghost ${maskShapeTool === shapeTool ? 'selected' : ''}`}
+            onClick={() => setMaskShapeTool(shapeTool)}
+          >
+            {maskShapeLabels[shapeTool]}
+          </button>
+        ))}
+      </div>
+      {maskShapeTool !== 'brush' ? <div className="hint">{maskShapeHint}</div> : null}
+      <div className="label">{ui.maskApplyMode}</div>
+      <div className="maskShapeRow">
+        <button className={`btn ghost ${maskApplyMode === 'auto' ? 'selected' : ''}`} onClick={() => setMaskApplyMode('auto')}>
+          {ui.maskApplyAuto}
+        </button>
+        <button className={`btn ghost ${maskApplyMode === 'manual' ? 'selected' : ''}`} onClick={() => setMaskApplyMode('manual')}>
+          {ui.maskApplyManual}
+        </button>
+      </div>
+      {maskApplyMode === 'manual' ? (
+        <>
+          <div className="maskShapeRow">
+            <button className={`btn ghost ${!maskSubtract ? 'selected' : ''}`} onClick={() => setMaskSubtract(false)}>
+              {ui.maskModeAdd}
+            </button>
+            <button className={`btn ghost ${maskSubtract ? 'selected' : ''}`} onClick={() => setMaskSubtract(true)}>
+              {ui.maskModeSubtract}
+            </button>
+          </div>
+          <div className="maskShapeRow">
+            <button
+              className="btn primary"
+              disabled={!!busy || !active || !hasAdditiveMask(active.maskStrokes)}
+              onClick={() => void runStagedMask()}
+            >
+              {ui.maskRun}
+            </button>
+            <button className="btn ghost" disabled={stagedMaskCount === 0} onClick={clearStagedMask}>
+              {ui.maskClear}
+            </button>
+          </div>
+          <div className="hint">{ui.maskStagedCount(stagedMaskCount)} · {ui.maskManualHint}</div>
+        </>
+      ) : null}
+      <div className="label">{ui.maskOverlayOpacity}</div>
+      <div className="brushControlRow">
+        <input
+          className="input smoothRange"
+          type="range"
+          min={10}
+          max={100}
+          step={5}
+          value={maskOverlayOpacity}
+          onChange={(e) => setMaskOverlayOpacity(clamp(Number(e.target.value), 10, 100))}
+        />
+        <span className="hint">{maskOverlayOpacity}%</span>
+      </div>
+    </>
+  )
   const stageCursor = tool === 'restore' || tool === 'eraser'
-    ? 'none'
+    ? maskShapeTool === 'brush' ? 'none' : 'crosshair'
     : tool === 'crop'
       ? cropCursor
       : tool === 'move'
@@ -3907,6 +5564,9 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       : 'dockPassthrough'
     : ''
   const brushSliderValue = brushToSlider(brushSize)
+  // A saved choice the server no longer offers falls back to the worker default.
+  const activeInpaintModel =
+    aiModels.find((model) => model.id === inpaintModel && model.available) ?? aiModels.find((model) => model.id === aiDefaultModel) ?? null
   const filteredToastLog = useMemo(() => {
     if (activityFilter === 'all') return toastLog
     return toastLog.filter((item) => item.tone === activityFilter)
@@ -3936,6 +5596,10 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
         { keyLabel: 'Shift+클릭', desc: '범위 다중선택', category: 'selection' },
         { keyLabel: 'I', desc: '파일 선택 반전', category: 'selection' },
         { keyLabel: 'Esc', desc: '선택 해제', category: 'selection' },
+        { keyLabel: 'Enter', desc: '모은 마스크 실행', category: 'tools' },
+        { keyLabel: 'Esc', desc: '모은 마스크 비우기', category: 'tools' },
+        { keyLabel: 'Ctrl/Cmd+F', desc: '찾기/바꾸기', category: 'tools' },
+        { keyLabel: 'Ctrl/Cmd+S', desc: '프로젝트 저장', category: 'history' },
         { keyLabel: 'Ctrl/Cmd+Z', desc: '실행취소', category: 'history' },
         { keyLabel: 'Shift+Ctrl/Cmd+Z', desc: '다시실행', category: 'history' },
         { keyLabel: 'Alt+L', desc: '작업 로그 비우기', category: 'history' },
@@ -3950,6 +5614,10 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
         { keyLabel: 'Shift+click', desc: 'Range multi-select', category: 'selection' },
         { keyLabel: 'I', desc: 'Invert file selection', category: 'selection' },
         { keyLabel: 'Esc', desc: 'Clear selection', category: 'selection' },
+        { keyLabel: 'Enter', desc: 'Run staged mask', category: 'tools' },
+        { keyLabel: 'Esc', desc: 'Clear staged mask', category: 'tools' },
+        { keyLabel: 'Ctrl/Cmd+F', desc: 'Find & replace', category: 'tools' },
+        { keyLabel: 'Ctrl/Cmd+S', desc: 'Save project', category: 'history' },
         { keyLabel: 'Ctrl/Cmd+Z', desc: 'Undo', category: 'history' },
         { keyLabel: 'Shift+Ctrl/Cmd+Z', desc: 'Redo', category: 'history' },
         { keyLabel: 'Alt+L', desc: 'Clear activity log', category: 'history' },
@@ -3989,12 +5657,12 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     recentDirtySummaries.length > 0 ? `${ui.unsavedRecentChanges}: ${recentDirtySummaries.join(' · ')}` : null,
   ].filter(Boolean).join('\n')
   const activityPreviewCurrentBase = useMemo(() => {
-    const cached = activityPreview?.current?.baseDataUrl
-    if (cached) return cached
+    const cached = activityPreview?.current?.imageId
+    if (cached) return getImageUrl(cached)
     const previewAssetId = activityPreview?.item.assetId
     if (!previewAssetId) return null
     const found = assets.find((asset) => asset.id === previewAssetId)
-    return found?.baseDataUrl ?? null
+    return found ? getImageUrl(found.imageId) : null
   }, [activityPreview, assets])
 
   function startQuickBarDrag(e: ReactMouseEvent<HTMLButtonElement>) {
@@ -4026,34 +5694,83 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
 
   function runCancelableStart() {
     cancelRequestedRef.current = false
+    cancelAbortRef.current = new AbortController()
     setCancelableTask(true)
   }
 
   function runCancelableEnd() {
     setCancelableTask(false)
     cancelRequestedRef.current = false
+    cancelAbortRef.current = null
   }
 
   function requestCancelTask() {
     cancelRequestedRef.current = true
+    cancelAbortRef.current?.abort()
     setStatus(ui.taskCancelled)
   }
 
-  function applyPendingAutoRestore() {
-    if (!pendingAutoRestore) return
-    setAssets(pendingAutoRestore.assets)
-    setActiveId(pendingAutoRestore.activeId ?? pendingAutoRestore.assets[0]?.id ?? null)
-    setLastAutoSaveAt(pendingAutoRestore.ts)
-    setPendingAutoRestore(null)
-    setStatus(ui.ready)
+  async function openRecoveryPicker() {
+    try {
+      setRecoverySlots(await listAutoSaveSlots())
+      setRecoveryOpen(true)
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    }
   }
 
-  function discardPendingAutoRestore() {
-    setPendingAutoRestore(null)
+  async function restoreRecoverySlot(slot: AutoSaveSlot) {
+    if (busy) return
+    setBusy(ui.recoveryRestoring)
     try {
-      window.localStorage.removeItem('lamivi-autosave')
-    } catch {
-      // ignore
+      const restored = await readAutoSaveSnapshot(slot.id)
+      const fonts = await adoptCustomFonts(restored.fonts)
+      if (persistHistoryEnabled) {
+        historyLoadFailedRef.current = false
+        setHistoryLoadError(null)
+        try {
+          const saved = await loadPersistedHistory(slot.id)
+          if (saved) {
+            setAssetListHistoryPast(saved.past)
+            setAssetListHistoryFuture(saved.future)
+          }
+        } catch (e) {
+          historyLoadFailedRef.current = true
+          setHistoryLoadError(e instanceof Error ? e.message : String(e))
+        }
+        historyOwnedRef.current = true
+      }
+      if (assetsRef.current.length > 0) pushAssetListHistory('Restore autosave', snapshotAssetList(assetsRef.current))
+      setAssets(restored.assets)
+      setActiveId(restored.activeId ?? restored.assets[0]?.id ?? null)
+      setSelectedTextId(null)
+      // The restored list is already in a slot; saving it again would only push out an older one.
+      lastAutoSavedAssetsRef.current = restored.assets
+      lastAutoSavedFontsRef.current = fonts
+      setAutoSaveSlotId(slot.id)
+      setRecoveryOpen(false)
+      setStatus(ui.recoveryRestored(formatSlotTimestamp(slot.ts)))
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  async function deleteRecoverySlots() {
+    if (!window.confirm(ui.recoveryDeleteConfirm(recoverySlots.length))) return
+    try {
+      await clearAutoSaveSlots()
+      // Without its slot, the stored undo history can never be restored.
+      await clearPersistedHistory()
+      setRecoverySlots([])
+      setRecoveryOpen(false)
+      setLastAutoSaveAt(null)
+      lastAutoSavedAssetsRef.current = null
+      lastAutoSavedFontsRef.current = null
+      setAutoSaveSlotId(null)
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
     }
   }
 
@@ -4086,6 +5803,16 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     }).format(new Date(ts))
   }
 
+  function formatSlotTimestamp(ts: number) {
+    return new Intl.DateTimeFormat(locale === 'ko' ? 'ko-KR' : 'en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    }).format(new Date(ts))
+  }
+
   function formatLogTimestamp(ts: number) {
     return new Intl.DateTimeFormat(locale === 'ko' ? 'ko-KR' : 'en-US', {
       hour: '2-digit',
@@ -4114,7 +5841,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       ...asset,
       width: parsed.width,
       height: parsed.height,
-      baseDataUrl: parsed.baseDataUrl,
+      imageId: parsed.imageId,
       texts: parsed.texts,
       groups: parsed.groups,
       maskStrokes: [],
@@ -4154,7 +5881,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       ...asset,
       width: chosen.width,
       height: chosen.height,
-      baseDataUrl: chosen.baseDataUrl,
+      imageId: chosen.imageId,
       texts: cloneTextItems(chosen.texts),
       groups: cloneLayerGroups(chosen.groups),
       maskStrokes: [],
@@ -4292,8 +6019,16 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
       `runtimeDevice=${aiDevice}`,
       `aiReady=${String(aiReady)}`,
       `aiError=${aiError ?? 'none'}`,
+      `inpaintModel=${activeInpaintModel?.id ?? 'default'}`,
+      `inpaintStrategy=${inpaintStrategy}`,
+      `maskEdge=dilate${maskDilate}/feather${maskFeather}`,
+      `maskApplyMode=${maskApplyMode}`,
+      `inpaintContext=${inpaintContext.margin}${inpaintContext.mode === 'relative' ? '%' : 'px'}/min${inpaintContext.minSize}/${inpaintContext.aspect}`,
       `brushSize=${brushSize}`,
       `autoSaveSeconds=${autoSaveSeconds}`,
+      `autoSaveSlots=${autoSaveSlotCount}`,
+      `historyBudgetMb=${historyBudgetMb}`,
+      `persistHistory=${persistHistoryEnabled ? 'on' : 'off'}`,
       `showGuide=${String(showGuide)}`,
       `showShortcutTips=${String(showShortcutTips)}`,
       `textClickEditMode=${textClickEditMode}`,
@@ -4417,6 +6152,123 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     setStatus(ui.activityDownloaded(filename))
   }
 
+  // Adds a log entry without going through the status toast, for detail lines that should not pop up.
+  function appendActivityLog(text: string) {
+    setToastLog((prev) => {
+      const next: ToastLogItem = { id: uid('log'), text, tone: statusTone(text), at: Date.now(), assetId: null, snapshot: null }
+      return [next, ...prev].slice(0, activityLogLimit)
+    })
+  }
+
+  function exportTranslations() {
+    const entries = collectTranslationEntries(assets)
+    if (entries.length === 0) {
+      setStatus(ui.translationNoTexts)
+      return
+    }
+    const blob = serializeTranslations(entries, translationFormat, locale)
+    const filename = buildLamiviBundleFilename(assets[0]!.name, '_texts', TRANSLATION_EXTENSIONS[translationFormat])
+    downloadBlob(blob, filename)
+    setStatus(ui.translationExported(entries.length, filename))
+  }
+
+  async function importTranslations(files: FileList | null) {
+    const file = files?.[0]
+    if (!file) return
+    try {
+      const updates = parseTranslations(file.name, await file.text())
+      const byId = new Map(updates.filter((u) => u.textId).map((u) => [u.textId, u]))
+      const matched = new Set<string>()
+      let working = assetsRef.current
+      let changedTexts = 0
+      let changedAssets = 0
+      for (const asset of assetsRef.current) {
+        let changed = false
+        const texts = asset.texts.map((t) => {
+          const update = byId.get(t.id)
+          if (!update) return t
+          matched.add(t.id)
+          if (update.text === t.text) return t
+          changed = true
+          changedTexts += 1
+          return patchTextItem(t, { text: update.text })
+        })
+        if (!changed) continue
+        // One undo step per asset, each snapshotting the state left by the previous asset's update.
+        pushAssetListHistory('Import translations', snapshotAssetList(working))
+        working = working.map((a) => (a.id === asset.id ? { ...a, texts } : a))
+        changedAssets += 1
+      }
+      if (changedAssets > 0) setAssets(working)
+
+      const unmatched = updates.filter((u) => !u.textId || !matched.has(u.textId))
+      if (unmatched.length > 0) {
+        const ids = unmatched.slice(0, TRANSLATION_UNMATCHED_LOG_MAX).map((u) => u.textId || '(empty id)')
+        appendActivityLog(ui.translationUnmatched(unmatched.length, ids.join(', ')))
+      }
+      setStatus(ui.translationImported(changedTexts, changedAssets, unmatched.length))
+    } catch (e) {
+      setStatus(localizeErrorMessage(e instanceof Error ? e.message : String(e)))
+    }
+  }
+
+  function jumpToMatch(match: TextMatch) {
+    if (!assetsRef.current.some((asset) => asset.id === match.assetId)) return
+    setActiveId(match.assetId)
+    scrollToAsset(match.assetId)
+    setTool('text')
+    setSelectedTextId(match.textId)
+  }
+
+  function replaceFindMatch(match: TextMatch) {
+    const pattern = findPattern.pattern
+    if (!pattern) return
+    const asset = assetsRef.current.find((a) => a.id === match.assetId)
+    const item = asset?.texts.find((t) => t.id === match.textId)
+    if (!asset || !item) return
+    if (item.locked) {
+      setStatus(ui.findLockedSkipped(1))
+      return
+    }
+    const next = replaceMatchInText(item.text, match, pattern, findReplacement, findRegex)
+    if (next === item.text) return
+    updateAssetByIdWithHistory(asset.id, 'Replace text', (a) => ({
+      ...a,
+      texts: a.texts.map((t) => (t.id === item.id ? patchTextItem(t, { text: next }) : t)),
+    }))
+    jumpToMatch(match)
+  }
+
+  // Replaces every match in scope as a single undo step; locked layers are left untouched.
+  function replaceAllFindMatches() {
+    const pattern = findPattern.pattern
+    if (!pattern) return
+    const scopeIds = new Set(exportTargets(findScope).map((a) => a.id))
+    let replaced = 0
+    let lockedSkipped = 0
+    const next = assetsRef.current.map((asset) => {
+      if (!scopeIds.has(asset.id)) return asset
+      let changed = false
+      const texts = asset.texts.map((t) => {
+        const result = replaceAllInText(t.text, pattern, findReplacement, findRegex)
+        if (result.count === 0) return t
+        if (t.locked) {
+          lockedSkipped += 1
+          return t
+        }
+        changed = true
+        replaced += result.count
+        return patchTextItem(t, { text: result.text })
+      })
+      return changed ? { ...asset, texts } : asset
+    })
+    if (replaced > 0) {
+      pushAssetListHistory('Replace all text', snapshotAssetList(assetsRef.current))
+      setAssets(next)
+    }
+    setStatus(ui.findReplacedAll(replaced, lockedSkipped))
+  }
+
   function clearActivityLog() {
     setToastLog([])
     setStatus(ui.activityCleared)
@@ -4433,6 +6285,8 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
   function resetGeneralSettings() {
     setBrushSize(DEFAULT_BRUSH_SIZE)
     setAutoSaveSeconds(DEFAULT_AUTOSAVE_SECONDS)
+    setAutoSaveSlotCount(DEFAULT_AUTOSAVE_SLOTS)
+    setHistoryBudgetMb(DEFAULT_HISTORY_BUDGET_MB)
     setShowGuide(true)
     setActivityLogLimit(DEFAULT_ACTIVITY_LOG_LIMIT)
     setActivityFilter('all')
@@ -4450,6 +6304,12 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
     setTooltipDensity('detailed')
     setAnimationStrength('high')
     setUiDensity('default')
+    setInpaintStrategy('auto')
+    setInpaintContext(DEFAULT_INPAINT_CONTEXT)
+    setMaskDilate(DEFAULT_MASK_DILATE)
+    setMaskFeather(DEFAULT_MASK_FEATHER)
+    setMaskApplyMode('auto')
+    setMaskOverlayOpacity(DEFAULT_MASK_OVERLAY_OPACITY)
   }
 
   function resetExportSettings() {
@@ -4627,15 +6487,22 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
         </div>
       ) : null}
 
-      {pendingAutoRestore ? (
+      {recoveryOpen && recoverySlots.length > 0 ? (
         <div className="restorePrompt" role="dialog" aria-modal="true">
           <div className="restorePromptCard">
             <div className="restorePromptTitle">{ui.restorePromptTitle}</div>
-            <div className="hint">{ui.restorePromptBody}</div>
-            <div className="hint">{ui.settingsLastAutoSave}: {formatTimestamp(pendingAutoRestore.ts)}</div>
+            <div className="hint">{ui.recoveryBody}</div>
+            <div className="recoverySlotList">
+              {recoverySlots.map((slot) => (
+                <button key={slot.id} className="recoverySlot" onClick={() => void restoreRecoverySlot(slot)} disabled={!!busy}>
+                  <span className="recoverySlotTime">{formatSlotTimestamp(slot.ts)}</span>
+                  <span className="recoverySlotMeta">{ui.recoverySlotMeta(slot.pageCount, slot.textCount, slot.firstName)}</span>
+                </button>
+              ))}
+            </div>
             <div className="restorePromptActions">
-              <button className="btn" onClick={applyPendingAutoRestore}>{ui.restorePromptRestore}</button>
-              <button className="btn ghost" onClick={discardPendingAutoRestore}>{ui.restorePromptDiscard}</button>
+              <button className="btn ghost" onClick={() => void deleteRecoverySlots()}>{ui.recoveryDeleteAll}</button>
+              <button className="btn" onClick={() => setRecoveryOpen(false)}>{ui.restorePromptDiscard}</button>
             </div>
           </div>
         </div>
@@ -4710,6 +6577,95 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
             </div>
             ) : null}
 
+            {settingsTab === 'editing' ? (
+            <div className={settingRowClass}>
+              <div className="settingsLabel">{ui.settingsInpaintStrategy}</div>
+              <select className="langSelect settingsLangSelect" value={inpaintStrategy} onChange={(e) => setInpaintStrategy(e.target.value as InpaintStrategy)}>
+                <option value="auto">{ui.settingsInpaintStrategyAuto}</option>
+                <option value="tile">{ui.settingsInpaintStrategyTile}</option>
+                <option value="resize">{ui.settingsInpaintStrategyResize}</option>
+                <option value="direct">{ui.settingsInpaintStrategyDirect}</option>
+              </select>
+              <div className="hint">{ui.settingsInpaintStrategyHint}</div>
+            </div>
+            ) : null}
+
+            {settingsTab === 'editing' ? (
+            <div className={settingRowClass}>
+              <div className="settingsLabel">{ui.settingsInpaintContext}</div>
+              <div className="settingsInline">
+                <input
+                  className="input settingsNumberInput"
+                  type="number"
+                  min={0}
+                  max={INPAINT_CONTEXT_MARGIN_MAX}
+                  value={inpaintContext.margin}
+                  onChange={(e) => setInpaintContext((prev) => parseInpaintContext({ ...prev, margin: Number(e.target.value) || 0 }))}
+                />
+                <select
+                  className="langSelect settingsLangSelect"
+                  value={inpaintContext.mode}
+                  onChange={(e) => setInpaintContext((prev) => ({ ...prev, mode: e.target.value as InpaintContextMode }))}
+                >
+                  <option value="relative">{ui.settingsInpaintContextRelative}</option>
+                  <option value="absolute">{ui.settingsInpaintContextAbsolute}</option>
+                </select>
+              </div>
+              <div className="hint">{ui.settingsInpaintContextHint}</div>
+            </div>
+            ) : null}
+
+            {settingsTab === 'editing' ? (
+            <div className={settingRowClass}>
+              <div className="settingsLabel">{ui.settingsInpaintMinCrop}</div>
+              <div className="settingsInline">
+                <input
+                  className="input settingsNumberInput"
+                  type="number"
+                  min={0}
+                  max={INPAINT_MIN_CROP_MAX}
+                  step={32}
+                  value={inpaintContext.minSize}
+                  onChange={(e) => setInpaintContext((prev) => parseInpaintContext({ ...prev, minSize: Number(e.target.value) || 0 }))}
+                />
+                <select
+                  className="langSelect settingsLangSelect"
+                  value={inpaintContext.aspect}
+                  onChange={(e) => setInpaintContext((prev) => ({ ...prev, aspect: e.target.value as InpaintCropAspect }))}
+                  aria-label={ui.settingsInpaintAspect}
+                >
+                  <option value="free">{ui.settingsInpaintAspectFree}</option>
+                  <option value="square">{ui.settingsInpaintAspectSquare}</option>
+                </select>
+              </div>
+            </div>
+            ) : null}
+
+            {settingsTab === 'editing' ? (
+            <div className={settingRowClass}>
+              <div className="settingsLabel">{ui.settingsMaskEdge}</div>
+              <div className="settingsInline">
+                <input
+                  className="input settingsNumberInput"
+                  type="number"
+                  min={0}
+                  max={MASK_EDGE_MAX}
+                  value={maskDilate}
+                  onChange={(e) => setMaskDilate(clamp(Math.round(Number(e.target.value) || 0), 0, MASK_EDGE_MAX))}
+                />
+                <input
+                  className="input settingsNumberInput"
+                  type="number"
+                  min={0}
+                  max={MASK_EDGE_MAX}
+                  value={maskFeather}
+                  onChange={(e) => setMaskFeather(clamp(Math.round(Number(e.target.value) || 0), 0, MASK_EDGE_MAX))}
+                />
+              </div>
+              <div className="hint">{ui.settingsMaskEdgeHint}</div>
+            </div>
+            ) : null}
+
             {settingsTab === 'general' ? (
             <div className={settingRowClass}>
               <div className="settingsLabel">{ui.settingsAutoSave}</div>
@@ -4724,6 +6680,47 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
             </div>
             ) : null}
 
+            {settingsTab === 'general' ? (
+            <div className={settingRowClass}>
+              <div className="settingsLabel">{ui.settingsAutoSaveSlots}</div>
+              <select className="langSelect settingsLangSelect" value={String(autoSaveSlotCount)} onChange={(e) => setAutoSaveSlotCount(Number(e.target.value))}>
+                {AUTOSAVE_SLOT_OPTIONS.map((count) => (
+                  <option key={count} value={count}>{count}</option>
+                ))}
+              </select>
+              <button className="btn" onClick={() => void openRecoveryPicker()}>{ui.recoveryOpen}</button>
+              <div className="hint">{ui.settingsAutoSaveSlotsHint}</div>
+            </div>
+            ) : null}
+
+            {settingsTab === 'general' ? (
+            <div className={settingRowClass}>
+              <div className="settingsLabel">{ui.settingsHistoryBudget}</div>
+              <select className="langSelect settingsLangSelect" value={String(historyBudgetMb)} onChange={(e) => setHistoryBudgetMb(Number(e.target.value))}>
+                {HISTORY_BUDGET_OPTIONS_MB.map((mb) => (
+                  <option key={mb} value={mb}>{mb} MB</option>
+                ))}
+              </select>
+              <div className="hint">
+                {ui.settingsHistoryUsage(
+                  `${(historyRetainedBytes([...assetListHistoryPast, ...assetListHistoryFuture], assets) / (1024 * 1024)).toFixed(1)} MB`,
+                  `${historyBudgetMb} MB`,
+                )}
+              </div>
+              <label className="settingsToggle">
+                <input
+                  type="checkbox"
+                  checked={persistHistoryEnabled}
+                  onChange={(e) => {
+                    setPersistHistoryEnabled(e.target.checked)
+                    if (!e.target.checked) void clearPersistedHistory().catch(() => undefined)
+                  }}
+                />
+                <span>{ui.settingsHistoryPersist}</span>
+              </label>
+            </div>
+            ) : null}
+
             {settingsTab === 'general' ? (
             <div className={settingRowClass}>
               <div className="settingsLabel">{ui.settingsActivityLogLimit}</div>
@@ -4944,7 +6941,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                     setDragOverAssetId(null)
                   }}
                 >
-                  <img className="thumb" src={a.baseDataUrl} alt={a.name} loading="lazy" decoding="async" />
+                  <img className="thumb" src={getImageUrl(a.imageId)} alt={a.name} loading="lazy" decoding="async" />
                   <div className="assetMeta">
                     <div className="assetTopRow">
                       <div className="assetName">
@@ -4993,6 +6990,22 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                 style={{ display: 'none' }}
               />
             </label>
+            <button className="btn" onClick={() => void saveProject()} disabled={assets.length === 0 || !!busy}>
+              {ui.projectSave}
+            </button>
+            <label className="btn">
+              {ui.projectOpen}
+              <input
+                type="file"
+                accept={`.${PROJECT_EXTENSION},.zip,.json`}
+                disabled={!!busy}
+                onChange={(e) => {
+                  void openProject(e.target.files)
+                  e.target.value = ''
+                }}
+                style={{ display: 'none' }}
+              />
+            </label>
             <button className="btn danger" onClick={clearAllAssets} disabled={assets.length === 0 || !!busy}>
               {ui.clearAllAssets}
             </button>
@@ -5183,11 +7196,119 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
               </button>
               {!quickBarCollapsed ? (
                 <>
+                  <div className="quickBarGroup">
+                    <select
+                      className="quickSelect"
+                      value={selectedText.fontFamily}
+                      disabled={selectedText.locked}
+                      onChange={(e) => updateSelectedText({ fontFamily: e.target.value })}
+                      aria-label={ui.fontFamily}
+                      title={ui.fontFamily}
+                    >
+                      {[...new Set([...BUILTIN_FONT_FAMILIES, ...customFonts.map((font) => font.family), selectedText.fontFamily])].map((family) => (
+                        <option key={family} value={family} style={{ fontFamily: `"${family}"` }}>
+                          {family}
+                        </option>
+                      ))}
+                    </select>
+                    <label className="iconMini" title={ui.fontUpload} aria-label={ui.fontUpload}>
+                      <span aria-hidden="true">＋</span>
+                      <span className="srOnly">{ui.fontUpload}</span>
+                      <input
+                        type="file"
+                        multiple
+                        accept={FONT_FILE_ACCEPT}
+                        onChange={(e) => {
+                          void uploadFonts(e.target.files)
+                          e.target.value = ''
+                        }}
+                        style={{ display: 'none' }}
+                      />
+                    </label>
+                  </div>
                   <div className="quickBarGroup">
                     <button className={`iconMini ${selectedText.align === 'left' ? 'selected' : ''}`} disabled={selectedText.locked} onClick={() => updateSelectedText({ align: 'left' })} aria-label={ui.alignLeft}><span aria-hidden="true">↤</span><span className="srOnly">{ui.alignLeft}</span></button>
                     <button className={`iconMini ${selectedText.align === 'center' ? 'selected' : ''}`} disabled={selectedText.locked} onClick={() => updateSelectedText({ align: 'center' })} aria-label={ui.alignCenter}><span aria-hidden="true">↔</span><span className="srOnly">{ui.alignCenter}</span></button>
                     <button className={`iconMini ${selectedText.align === 'right' ? 'selected' : ''}`} disabled={selectedText.locked} onClick={() => updateSelectedText({ align: 'right' })} aria-label={ui.alignRight}><span aria-hidden="true">↦</span><span className="srOnly">{ui.alignRight}</span></button>
+                    <button className={`iconMini ${selectedText.writingMode === 'vertical' ? 'selected' : ''}`} disabled={selectedText.locked} onClick={() => updateSelectedText({ writingMode: selectedText.writingMode === 'vertical' ? 'horizontal' : 'vertical' })} aria-label={ui.verticalText}><span aria-hidden="true">⇣</span><span className="srOnly">{ui.verticalText}</span></button>
+                    <button className={`iconMini ${selectedText.width ? 'selected' : ''}`} disabled={selectedText.locked || selectedText.writingMode === 'vertical'} onClick={() => {
+                      if (!active) return
+                      updateSelectedText({ width: selectedText.width ? undefined : estimateTextBoxPx(selectedText.text, selectedText, active).width })
+                    }} aria-label={ui.fixedWidthText}><span aria-hidden="true">⇹</span><span className="srOnly">{ui.fixedWidthText}</span></button>
                   </div>
+                  <label className="quickSpacing" title={ui.lineHeight} aria-label={ui.lineHeight}>
+                    <span aria-hidden="true">↕</span>
+                    <input
+                      type="number"
+                      min={0.5}
+                      max={3}
+                      step={0.05}
+                      value={resolveTextLineHeight(selectedText)}
+                      disabled={selectedText.locked}
+                      onChange={(e) => updateSelectedText({ lineHeight: clamp(Number(e.target.value) || 1, 0.5, 3) })}
+                    />
+                  </label>
+                  <label className="quickSpacing" title={ui.letterSpacing} aria-label={ui.letterSpacing}>
+                    <span aria-hidden="true">⟷</span>
+                    <input
+                      type="number"
+                      min={-20}
+                      max={100}
+                      step={0.5}
+                      value={resolveTextLetterSpacing(selectedText)}
+                      disabled={selectedText.locked}
+                      onChange={(e) => updateSelectedText({ letterSpacing: clamp(Number(e.target.value) || 0, -20, 100) })}
+                    />
+                  </label>
+                  <div className="quickBarGroup">
+                    <button className="iconMini" disabled={selectedText.locked} onClick={fitSelectedTextToRegion} aria-label={ui.textFitToRegion} title={ui.textFitToRegion}><span aria-hidden="true">⛶</span><span className="srOnly">{ui.textFitToRegion}</span></button>
+                    <select
+                      className="quickSelect"
+                      value={selectedText.fit?.mode ?? ''}
+                      disabled={selectedText.locked}
+                      onChange={(e) => setSelectedTextFitMode((e.target.value || null) as TextFitMode | null)}
+                      aria-label={ui.textFitMode}
+                      title={ui.textFitMode}
+                    >
+                      <option value="">{ui.textFitOff}</option>
+                      <option value="shrink">{ui.textFitShrink}</option>
+                      <option value="grow">{ui.textFitGrow}</option>
+                    </select>
+                  </div>
+                  {selectedText.fit ? (
+                    <>
+                      <label className="quickSpacing" title={ui.textFitMinSize} aria-label={ui.textFitMinSize}>
+                        <span aria-hidden="true">A↓</span>
+                        <input
+                          type="number"
+                          min={TEXT_FIT_MIN_SIZE}
+                          max={TEXT_FIT_MAX_SIZE}
+                          step={1}
+                          value={selectedText.fit.minSize}
+                          disabled={selectedText.locked}
+                          onChange={(e) => {
+                            if (!selectedText.fit) return
+                            updateSelectedText({ fit: { ...selectedText.fit, minSize: clamp(Math.round(Number(e.target.value) || TEXT_FIT_MIN_SIZE), TEXT_FIT_MIN_SIZE, TEXT_FIT_MAX_SIZE) } })
+                          }}
+                        />
+                      </label>
+                      <label className="quickSpacing" title={ui.textFitMaxSize} aria-label={ui.textFitMaxSize}>
+                        <span aria-hidden="true">A↑</span>
+                        <input
+                          type="number"
+                          min={TEXT_FIT_MIN_SIZE}
+                          max={TEXT_FIT_MAX_SIZE}
+                          step={1}
+                          value={selectedText.fit.maxSize}
+                          disabled={selectedText.locked}
+                          onChange={(e) => {
+                            if (!selectedText.fit) return
+                            updateSelectedText({ fit: { ...selectedText.fit, maxSize: clamp(Math.round(Number(e.target.value) || TEXT_FIT_MAX_SIZE), TEXT_FIT_MIN_SIZE, TEXT_FIT_MAX_SIZE) } })
+                          }}
+                        />
+                      </label>
+                    </>
+                  ) : null}
                   <div className="quickBarGroup">
                     <button className="iconMini" disabled={selectedText.locked} onClick={() => updateSelectedText({ fontWeight: 400 })} aria-label={ui.fontWeightRegular}><span aria-hidden="true">R</span><span className="srOnly">{ui.fontWeightRegular}</span></button>
                     <button className="iconMini" disabled={selectedText.locked} onClick={() => updateSelectedText({ fontWeight: 700 })} aria-label={ui.fontWeightBold}><span aria-hidden="true">B</span><span className="srOnly">{ui.fontWeightBold}</span></button>
@@ -5214,6 +7335,110 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                     />
                     <span>{Math.round(resolveTextBackgroundOpacity(selectedText) * 100)}%</span>
                   </label>
+                  <button type="button" className={`iconMini ${quickBarStylesOpen ? 'selected' : ''}`} onClick={() => setQuickBarStylesOpen((prev) => !prev)} aria-label={ui.textStyles} title={ui.textStyles}><span aria-hidden="true">✦</span><span className="srOnly">{ui.textStyles}</span></button>
+                  {quickBarStylesOpen ? (
+                    <div className="quickBarStyles">
+                      <label className="quickOpacity" title={ui.textOpacity} aria-label={ui.textOpacity}>
+                        <input
+                          type="range"
+                          min={0}
+                          max={100}
+                          step={1}
+                          value={Math.round(clamp(selectedText.opacity, 0, 1) * 100)}
+                          disabled={selectedText.locked}
+                          onChange={(e) => updateSelectedText({ opacity: clamp(Number(e.target.value) / 100, 0, 1) })}
+                        />
+                        <span>{Math.round(clamp(selectedText.opacity, 0, 1) * 100)}%</span>
+                      </label>
+                      <div className="quickBarGroup">
+                        {quickNumberField(ui.outlineWidth, '◯', resolveTextOutlineWidth(selectedText), 0, TEXT_OUTLINE_MAX, 0.2, (outlineWidth) => updateSelectedText({ outlineWidth }))}
+                        <select
+                          className="quickSelect"
+                          value={selectedText.outlineJoin ?? 'miter'}
+                          disabled={selectedText.locked}
+                          onChange={(e) => updateSelectedText({ outlineJoin: e.target.value as TextOutlineJoin })}
+                          aria-label={ui.outlineJoin}
+                          title={ui.outlineJoin}
+                        >
+                          <option value="miter">{ui.outlineJoinMiter}</option>
+                          <option value="round">{ui.outlineJoinRound}</option>
+                          <option value="bevel">{ui.outlineJoinBevel}</option>
+                        </select>
+                      </div>
+                      <div className="quickBarGroup">
+                        <button
+                          className={`iconMini ${selectedText.shadow ? 'selected' : ''}`}
+                          disabled={selectedText.locked}
+                          onClick={() => updateSelectedText({ shadow: selectedText.shadow ? undefined : { ...DEFAULT_TEXT_SHADOW } })}
+                          aria-label={ui.textShadow}
+                          title={ui.textShadow}
+                        >
+                          <span aria-hidden="true">◐</span>
+                          <span className="srOnly">{ui.textShadow}</span>
+                        </button>
+                        {selectedText.shadow ? (
+                          <>
+                            <label className="quickColor" title={ui.shadowColor} aria-label={ui.shadowColor}>
+                              <input
+                                type="color"
+                                value={selectedText.shadow.color}
+                                disabled={selectedText.locked}
+                                onChange={(e) => selectedText.shadow && updateSelectedText({ shadow: { ...selectedText.shadow, color: e.target.value } })}
+                              />
+                            </label>
+                            {quickNumberField(ui.shadowBlur, '◌', selectedText.shadow.blur, 0, 100, 1, (blur) => selectedText.shadow && updateSelectedText({ shadow: { ...selectedText.shadow, blur } }))}
+                            {quickNumberField(ui.shadowOffsetX, '→', selectedText.shadow.offsetX, -100, 100, 1, (offsetX) => selectedText.shadow && updateSelectedText({ shadow: { ...selectedText.shadow, offsetX } }))}
+                            {quickNumberField(ui.shadowOffsetY, '↓', selectedText.shadow.offsetY, -100, 100, 1, (offsetY) => selectedText.shadow && updateSelectedText({ shadow: { ...selectedText.shadow, offsetY } }))}
+                            {quickNumberField(ui.shadowOpacity, '%', Math.round(selectedText.shadow.opacity * 100), 0, 100, 5, (opacity) => selectedText.shadow && updateSelectedText({ shadow: { ...selectedText.shadow, opacity: opacity / 100 } }))}
+                          </>
+                        ) : null}
+                      </div>
+                      <div className="quickBarGroup">
+                        <select
+                          className="quickSelect"
+                          value={selectedText.gradient?.kind ?? ''}
+                          disabled={selectedText.locked}
+                          onChange={(e) => {
+                            const kind = e.target.value as TextGradient['kind'] | ''
+                            updateSelectedText({
+                              gradient: kind
+                                ? { from: selectedText.fill, to: resolveTextOutlineColor(selectedText), angle: 90, ...selectedText.gradient, kind }
+                                : undefined,
+                            })
+                          }}
+                          aria-label={ui.gradientFill}
+                          title={ui.gradientFill}
+                        >
+                          <option value="">{ui.gradientNone}</option>
+                          <option value="linear">{ui.gradientLinear}</option>
+                          <option value="radial">{ui.gradientRadial}</option>
+                        </select>
+                        {selectedText.gradient ? (
+                          <>
+                            <label className="quickColor" title={ui.gradientFrom} aria-label={ui.gradientFrom}>
+                              <input
+                                type="color"
+                                value={selectedText.gradient.from}
+                                disabled={selectedText.locked}
+                                onChange={(e) => selectedText.gradient && updateSelectedText({ gradient: { ...selectedText.gradient, from: e.target.value } })}
+                              />
+                            </label>
+                            <label className="quickColor" title={ui.gradientTo} aria-label={ui.gradientTo}>
+                              <input
+                                type="color"
+                                value={selectedText.gradient.to}
+                                disabled={selectedText.locked}
+                                onChange={(e) => selectedText.gradient && updateSelectedText({ gradient: { ...selectedText.gradient, to: e.target.value } })}
+                              />
+                            </label>
+                            {selectedText.gradient.kind === 'linear'
+                              ? quickNumberField(ui.gradientAngle, '∠', selectedText.gradient.angle, 0, 360, 15, (angle) => selectedText.gradient && updateSelectedText({ gradient: { ...selectedText.gradient, angle } }))
+                              : null}
+                          </>
+                        ) : null}
+                      </div>
+                    </div>
+                  ) : null}
                 </>
               ) : null}
             </div>
@@ -5241,8 +7466,9 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                     zIndex: 10,
                     left: fit.ox + selectedText.x * fit.scale,
                     top: fit.oy + selectedText.y * fit.scale,
-                    width: Math.max(160, 420 * fit.scale),
-                    height: Math.max(44, 90 * fit.scale),
+                    ...(selectedText.writingMode === 'vertical'
+                      ? { width: Math.max(44, 90 * fit.scale), height: Math.max(160, 420 * fit.scale), writingMode: 'vertical-rl' as const }
+                      : { width: selectedText.width ? Math.max(80, selectedText.width * fit.scale) : Math.max(160, 420 * fit.scale), height: Math.max(44, 90 * fit.scale) }),
                     resize: 'none',
                   }}
                   autoFocus
@@ -5259,6 +7485,9 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                onMouseMove={onStageMouseMove}
                onMouseUp={onStageMouseUp}
                onMouseLeave={onStageMouseLeave}
+               onDblClick={() => {
+                 if (polygonDraftRef.current) void finishMaskPolygon()
+               }}
                style={{ cursor: stageCursor }}
             >
               <Layer>
@@ -5272,134 +7501,162 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
 
               <Layer>
                 <Group x={fit.ox} y={fit.oy} scaleX={fit.scale} scaleY={fit.scale}>
-                  {active.texts.filter((t) => t.visible).map((t) => (
-                    <Group key={t.id} listening={false}>
-                      {(() => {
-                        const box = estimateTextBoxPx(t.text, t, active)
-                        const padX = 8
-                        const padY = 5
-                        const backgroundOpacity = resolveTextBackgroundOpacity(t)
-                        return backgroundOpacity > 0.001 ? (
-                          <Rect
-                            x={t.x - padX}
-                            y={t.y - padY}
-                            width={box.width + padX * 2}
-                            height={box.height + padY * 2}
-                            fill={resolveTextBackgroundColor(t)}
-                            opacity={backgroundOpacity}
+                  {active.texts.filter((t) => t.visible).map((t) => {
+                    // Vertical items are a custom shape; both take the same placement and handlers.
+                    const TextNode = t.writingMode === 'vertical' ? Shape : Text
+                    return (
+                        <Group key={t.id} listening={false}>
+                          {(() => {
+                            const box = estimateTextBoxPx(t.text, t, active)
+                            const padX = 8
+                            const padY = 5
+                            const backgroundOpacity = resolveTextBackgroundOpacity(t)
+                            return backgroundOpacity > 0.001 ? (
+                              <Rect
+                                x={t.x - padX}
+                                y={t.y - padY}
+                                width={box.width + padX * 2}
+                                height={box.height + padY * 2}
+                                fill={resolveTextBackgroundColor(t)}
+                                opacity={backgroundOpacity}
+                                rotation={t.rotation}
+                                listening={false}
+                              />
+                            ) : null
+                          })()}
+                          <TextNode
+                            {...(t.writingMode === 'vertical' ? verticalTextAttrs(t) : textNodeAttrs(t))}
+                            id={t.id}
+                            x={t.x}
+                            y={t.y}
                             rotation={t.rotation}
-                            listening={false}
+                            draggable={!t.locked}
+                            listening
+                            ref={(node) => {
+                              if (node) textNodeRefs.current[t.id] = node
+                            }}
+                            onClick={() => {
+                              setTool('text')
+                              setSelectedTextId(t.id)
+                            }}
+                            onTap={() => {
+                              setTool('text')
+                              setSelectedTextId(t.id)
+                            }}
+                            onDblClick={() => {
+                              setTool('text')
+                              setSelectedTextId(t.id)
+                              beginInlineEdit(t)
+                            }}
+                            onDblTap={() => {
+                              setTool('text')
+                              setSelectedTextId(t.id)
+                              beginInlineEdit(t)
+                            }}
+                            onDragStart={() => {
+                              setTool('text')
+                              setSelectedTextId(t.id)
+                            }}
+                            onDragMove={(e) => {
+                              if (!active) return
+                              snapTextDuringDrag(e.target as Konva.Shape, active)
+                            }}
+                            onDragEnd={(e) => {
+                              if (t.locked) return
+                              setDragGuides({})
+                              setDragMetrics(null)
+                              updateActiveWithHistory('Move text layer', (a) => ({
+                                ...a,
+                                texts: a.texts.map((tt) =>
+                                  tt.id === t.id
+                                    ? {
+                                        ...tt,
+                                        x: e.target.x(),
+                                        y: e.target.y(),
+                                        // The fit box travels with the text so a later re-fit keeps it here.
+                                        ...(tt.fit ? { fit: { ...tt.fit, x: tt.fit.x + e.target.x() - tt.x, y: tt.fit.y + e.target.y() - tt.y } } : {}),
+                                      }
+                                    : tt,
+                                ),
+                              }))
+                            }}
+                            onTransformStart={(e) => {
+                              const node = e.target as Konva.Shape
+                              const rect = node.getClientRect({ relativeTo: node.getParent() ?? undefined })
+                              textTransformBaseRef.current = {
+                                textId: t.id,
+                                fontSize: t.fontSize,
+                                rectHeight: Math.max(1, rect.height),
+                                // The side handles set the box width and rewrap; the others scale the font.
+                                resizeWidth: !!transformerRef.current?.getActiveAnchor()?.startsWith('middle'),
+                              }
+                            }}
+                            onTransform={(e) => {
+                              const base = textTransformBaseRef.current
+                              if (!base?.resizeWidth || base.textId !== t.id) return
+                              const node = e.target as Konva.Text
+                              const width = Math.max(t.fontSize, Math.round(node.width() * Math.abs(node.scaleX())))
+                              node.setAttrs({ width, scaleX: 1, text: textLines(t.text, { ...t, width }).join('\n') })
+                            }}
+                            onTransformEnd={(e) => {
+                              if (t.locked) return
+                              setDragMetrics(null)
+                              const node = e.target as Konva.Shape
+                              const base = textTransformBaseRef.current
+                              if (base?.resizeWidth && base.textId === t.id) {
+                                node.scaleX(1)
+                                node.scaleY(1)
+                                textTransformBaseRef.current = null
+                                updateActiveWithHistory('Resize text box', (a) => ({
+                                  ...a,
+                                  texts: a.texts.map((tt) =>
+                                    tt.id === t.id ? { ...tt, x: node.x(), y: node.y(), rotation: node.rotation(), width: Math.round(node.width()), fit: undefined } : tt,
+                                  ),
+                                }))
+                                return
+                              }
+                              const rect = node.getClientRect({ relativeTo: node.getParent() ?? undefined })
+                              const scaleBased = Math.max(0.2, Math.max(Math.abs(node.scaleX()), Math.abs(node.scaleY())))
+                              const heightBased = base && base.textId === t.id ? Math.max(0.2, rect.height / Math.max(1, base.rectHeight)) : 1
+                              const ratio = Math.abs(scaleBased - 1) > 0.01 ? scaleBased : heightBased
+                              const sourceFontSize = base && base.textId === t.id ? base.fontSize : t.fontSize
+                              const nextFontSize = clamp(Math.round(sourceFontSize * ratio), 8, 240)
+                              node.scaleX(1)
+                              node.scaleY(1)
+                              textTransformBaseRef.current = null
+                              updateActiveWithHistory('Transform text layer', (a) => ({
+                                ...a,
+                                texts: a.texts.map((tt) =>
+                                  tt.id === t.id
+                                    ? {
+                                        ...tt,
+                                        x: node.x(),
+                                        y: node.y(),
+                                        rotation: node.rotation(),
+                                        fontSize: nextFontSize,
+                                        ...(tt.width ? { width: Math.round((tt.width * nextFontSize) / Math.max(1, sourceFontSize)) } : {}),
+                                        // Sizing by hand replaces the fitted size.
+                                        fit: undefined,
+                                      }
+                                    : tt,
+                                ),
+                              }))
+                            }}
                           />
-                        ) : null
-                      })()}
-                      <Text
-                        id={t.id}
-                        x={t.x}
-                        y={t.y}
-                        text={t.text}
-                        fontFamily={t.fontFamily}
-                        fontSize={t.fontSize}
-                        fontStyle={toKonvaFontStyle(t)}
-                        fill={t.fill}
-                        rotation={t.rotation}
-                        align={t.align}
-                        opacity={t.opacity}
-                        stroke={resolveTextOutlineColor(t)}
-                        strokeWidth={1.2}
-                        paintStrokeEnabled
-                        draggable={!t.locked}
-                        listening
-                        ref={(node) => {
-                          if (node) textNodeRefs.current[t.id] = node
-                        }}
-                        onClick={() => {
-                          setTool('text')
-                          setSelectedTextId(t.id)
-                        }}
-                        onTap={() => {
-                          setTool('text')
-                          setSelectedTextId(t.id)
-                        }}
-                        onDblClick={() => {
-                          setTool('text')
-                          setSelectedTextId(t.id)
-                          beginInlineEdit(t)
-                        }}
-                        onDblTap={() => {
-                          setTool('text')
-                          setSelectedTextId(t.id)
-                          beginInlineEdit(t)
-                        }}
-                        onDragStart={() => {
-                          setTool('text')
-                          setSelectedTextId(t.id)
-                        }}
-                        onDragMove={(e) => {
-                          if (!active) return
-                          snapTextDuringDrag(e.target as Konva.Text, active)
-                        }}
-                        onDragEnd={(e) => {
-                          if (t.locked) return
-                          setDragGuides({})
-                          setDragMetrics(null)
-                          updateActiveWithHistory('Move text layer', (a) => ({
-                            ...a,
-                            texts: a.texts.map((tt) =>
-                              tt.id === t.id ? { ...tt, x: e.target.x(), y: e.target.y() } : tt,
-                            ),
-                          }))
-                        }}
-                        onTransformStart={(e) => {
-                          const node = e.target as Konva.Text
-                          const rect = node.getClientRect({ relativeTo: node.getParent() ?? undefined })
-                          textTransformBaseRef.current = {
-                            textId: t.id,
-                            fontSize: t.fontSize,
-                            rectHeight: Math.max(1, rect.height),
-                          }
-                        }}
-                        onTransformEnd={(e) => {
-                          if (t.locked) return
-                          setDragMetrics(null)
-                          const node = e.target as Konva.Text
-                          const base = textTransformBaseRef.current
-                          const rect = node.getClientRect({ relativeTo: node.getParent() ?? undefined })
-                          const scaleBased = Math.max(0.2, Math.max(Math.abs(node.scaleX()), Math.abs(node.scaleY())))
-                          const heightBased = base && base.textId === t.id ? Math.max(0.2, rect.height / Math.max(1, base.rectHeight)) : 1
-                          const ratio = Math.abs(scaleBased - 1) > 0.01 ? scaleBased : heightBased
-                          const sourceFontSize = base && base.textId === t.id ? base.fontSize : t.fontSize
-                          const nextFontSize = clamp(Math.round(sourceFontSize * ratio), 8, 240)
-                          node.scaleX(1)
-                          node.scaleY(1)
-                          textTransformBaseRef.current = null
-                          updateActiveWithHistory('Transform text layer', (a) => ({
-                            ...a,
-                            texts: a.texts.map((tt) =>
-                              tt.id === t.id
-                                ? {
-                                    ...tt,
-                                    x: node.x(),
-                                    y: node.y(),
-                                    rotation: node.rotation(),
-                                    fontSize: nextFontSize,
-                                  }
-                                : tt,
-                            ),
-                          }))
-                        }}
-                        shadowColor={selectedTextId === t.id ? 'rgba(0,0,0,0.45)' : 'rgba(0,0,0,0.35)'}
-                        shadowBlur={selectedTextId === t.id ? 12 : 8}
-                        shadowOpacity={0.9}
-                      />
-                    </Group>
-                  ))}
+                        </Group>
+                    )
+                  })}
 
                   <Transformer
                     ref={(n) => {
                       transformerRef.current = n
                     }}
                     rotateEnabled
-                    enabledAnchors={['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right']}
+                    enabledAnchors={
+                      selectedText?.writingMode === 'vertical'
+                        ? ['top-left', 'top-center', 'top-right', 'bottom-left', 'bottom-center', 'bottom-right']
+                        : ['top-left', 'top-center', 'top-right', 'middle-left', 'middle-right', 'bottom-left', 'bottom-center', 'bottom-right']
+                    }
                     anchorSize={10}
                     borderStroke="rgba(255,255,255,0.78)"
                     borderDash={[4, 4]}
@@ -5410,20 +7667,54 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                 </Group>
               </Layer>
 
-              <Layer>
+              {/* Mask shapes get their own layer so subtractions only cut the overlay and opacity applies to the union. */}
+              <Layer opacity={maskOverlayOpacity / 100} listening={false}>
                 <Group x={fit.ox} y={fit.oy} scaleX={fit.scale} scaleY={fit.scale}>
-                  {active.maskStrokes.map((l) => (
-                    <Line
-                      key={l.id}
-                      points={l.points}
-                      stroke="rgba(255, 86, 86, 0.70)"
-                      strokeWidth={l.strokeWidth}
-                      lineCap="round"
-                      lineJoin="round"
-                      tension={0}
-                    />
-                  ))}
+                  {active.maskStrokes.map((l) =>
+                    l.kind === 'rect' ? (
+                      <Rect key={l.id} x={l.x} y={l.y} width={l.width} height={l.height} fill={maskFill(l)} globalCompositeOperation={maskComposite(l)} listening={false} />
+                    ) : l.kind === 'ellipse' ? (
+                      <Ellipse
+                        key={l.id}
+                        x={l.x + l.width / 2}
+                        y={l.y + l.height / 2}
+                        radiusX={l.width / 2}
+                        radiusY={l.height / 2}
+                        fill={maskFill(l)}
+                        globalCompositeOperation={maskComposite(l)}
+                        listening={false}
+                      />
+                    ) : l.kind === 'polygon' ? (
+                      <Line
+                        key={l.id}
+                        points={l.points}
+                        closed
+                        fill={maskFill(l)}
+                        stroke={maskFill(l)}
+                        strokeWidth={1.5 / fit.scale}
+                        lineJoin="round"
+                        globalCompositeOperation={maskComposite(l)}
+                        listening={false}
+                      />
+                    ) : (
+                      <Line
+                        key={l.id}
+                        points={l.points}
+                        stroke={maskFill(l)}
+                        strokeWidth={l.strokeWidth}
+                        lineCap="round"
+                        lineJoin="round"
+                        tension={0}
+                        globalCompositeOperation={maskComposite(l)}
+                        listening={false}
+                      />
+                    ),
+                  )}
+                </Group>
+              </Layer>
 
+              <Layer>
+                <Group x={fit.ox} y={fit.oy} scaleX={fit.scale} scaleY={fit.scale}>
                   {dragGuides.x !== undefined ? (
                     <Line points={[dragGuides.x, 0, dragGuides.x, active.height]} stroke="rgba(100,210,255,0.35)" strokeWidth={1} />
                   ) : null}
@@ -5440,7 +7731,26 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                     </>
                   ) : null}
 
-                  {(tool === 'restore' || tool === 'eraser') && brushCursor.visible ? (
+                  {activeOcrBoxes.map((box) => (
+                    <Rect
+                      key={box.id}
+                      x={box.x}
+                      y={box.y}
+                      width={box.width}
+                      height={box.height}
+                      stroke={activeOcrSelection.has(box.id) ? 'rgba(255, 196, 64, 0.95)' : 'rgba(160, 170, 185, 0.8)'}
+                      strokeWidth={1.5 / fit.scale}
+                      dash={activeOcrSelection.has(box.id) ? undefined : [4 / fit.scale, 4 / fit.scale]}
+                      fill={activeOcrSelection.has(box.id) ? 'rgba(255, 196, 64, 0.18)' : 'rgba(0, 0, 0, 0.01)'}
+                      onMouseDown={(e) => {
+                        // Toggling a box must not also start a brush stroke on the stage.
+                        e.cancelBubble = true
+                        if (active) toggleOcrBox(active.id, box.id)
+                      }}
+                    />
+                  ))}
+
+                  {(tool === 'restore' || tool === 'eraser') && maskShapeTool === 'brush' && brushCursor.visible ? (
                     <Circle
                       x={brushCursor.x}
                       y={brushCursor.y}
@@ -5526,6 +7836,27 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
 
               {tool === 'restore' ? (
                 <>
+                  {aiModels.length > 0 ? (
+                    <>
+                      <div className="label">{ui.inpaintModel}</div>
+                      <select
+                        className="langSelect settingsLangSelect"
+                        value={activeInpaintModel?.id ?? ''}
+                        onChange={(e) => setInpaintModel(e.target.value)}
+                        disabled={!!busy}
+                      >
+                        {aiModels.map((model) => (
+                          <option key={model.id} value={model.id} disabled={!model.available}>
+                            {model.label}
+                            {model.id === aiDefaultModel ? ` (${ui.inpaintModelDefault})` : ''}
+                            {model.available ? '' : ` (${ui.unavailable})`}
+                          </option>
+                        ))}
+                      </select>
+                      <div className="hint">{activeInpaintModel?.kind === 'classical' ? ui.inpaintModelClassicalHint : ui.inpaintModelNeuralHint}</div>
+                    </>
+                  ) : null}
+                  {maskEditControls}
                   <div className="label">{ui.brushSize}</div>
                   <div className="brushControlRow">
                     <input
@@ -5546,7 +7877,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                       onChange={(e) => setBrushSize(clamp(Number(e.target.value) || BRUSH_MIN, BRUSH_MIN, BRUSH_MAX))}
                     />
                   </div>
-                  <div className="hint">{brushSize}px · {ui.restoreHint}</div>
+                  <div className="hint">{brushSize}px · {maskApplyMode === 'manual' ? ui.restoreManualHint : ui.restoreHint}</div>
                   <div className="macroControls">
                     <div>
                       <div className="label">{ui.macroCount}</div>
@@ -5575,11 +7906,57 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                     </button>
                   </div>
                   <div className="hint">{ui.macroHint} {ui.macroSelectHint}</div>
+                  <div className="label">{ui.ocrTitle}</div>
+                  <div className="maskShapeRow">
+                    <button className="btn" disabled={!!busy || !active} onClick={() => void runTextDetection(active ? [active] : [])}>
+                      {ui.ocrDetect}
+                    </button>
+                    <button className="btn" disabled={!!busy || !hasSelectedAssets} onClick={() => void runTextDetection(selectedAssets)}>
+                      {ui.ocrDetectSelected}
+                    </button>
+                  </div>
+                  {ocrPageCount > 0 ? (
+                    <>
+                      <div className="maskShapeRow">
+                        <button className={`btn ghost ${ocrGranularity === 'line' ? 'selected' : ''}`} onClick={() => setOcrGranularity('line')}>
+                          {ui.ocrLines}
+                        </button>
+                        <button className={`btn ghost ${ocrGranularity === 'word' ? 'selected' : ''}`} onClick={() => setOcrGranularity('word')}>
+                          {ui.ocrWords}
+                        </button>
+                        <button className="btn ghost" onClick={() => setAllOcrBoxesSelected(true)}>{ui.ocrSelectAll}</button>
+                        <button className="btn ghost" onClick={() => setAllOcrBoxesSelected(false)}>{ui.ocrSelectNone}</button>
+                      </div>
+                      <div className="maskShapeRow">
+                        <button className="btn primary" disabled={!!busy || ocrChosenCount === 0} onClick={() => void restoreOcrBoxes()}>
+                          {ui.ocrRestore}
+                        </button>
+                        <button className="btn" disabled={!!busy || ocrChosenCount === 0} onClick={convertOcrToMask}>
+                          {ui.ocrToMask}
+                        </button>
+                        <button className="btn ghost" disabled={!!busy} onClick={() => clearOcrResults()}>
+                          {ui.ocrClear}
+                        </button>
+                      </div>
+                      <div className="hint">{ui.ocrSummary(ocrChosenCount, ocrVisibleCount)}</div>
+                    </>
+                  ) : (
+                    <div className="hint">{ui.ocrHint}</div>
+                  )}
+                  <button
+                    className="btn"
+                    disabled={!!busy || !active || (activeOcrChosenCount === 0 && !(active && hasAdditiveMask(active.maskStrokes)))}
+                    onClick={() => void replaceWithEditableText()}
+                  >
+                    {ui.ocrReplaceText}
+                  </button>
+                  <div className="hint">{ui.ocrReplaceHint}</div>
                 </>
               ) : null}
 
               {tool === 'eraser' ? (
                 <>
+                  {maskEditControls}
                   <div className="label">{ui.brushSize}</div>
                   <div className="brushControlRow">
                     <input
@@ -5600,7 +7977,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                       onChange={(e) => setBrushSize(clamp(Number(e.target.value) || BRUSH_MIN, BRUSH_MIN, BRUSH_MAX))}
                     />
                   </div>
-                  <div className="hint">{brushSize}px · {ui.eraserHint}</div>
+                  <div className="hint">{brushSize}px · {maskApplyMode === 'manual' ? ui.eraserManualHint : ui.eraserHint}</div>
                   <div className="macroControls">
                     <div>
                       <div className="label">{ui.macroCount}</div>
@@ -5704,7 +8081,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                         onWheel={onCropCompareWheel}
                         onKeyDown={onCropCompareKeyDown}
                       >
-                        <img className="cropPreviewImage" src={active?.baseDataUrl} alt={ui.cropCompareBefore} loading="lazy" decoding="async" />
+                        <img className="cropPreviewImage" src={active ? getImageUrl(active.imageId) : undefined} alt={ui.cropCompareBefore} loading="lazy" decoding="async" />
                         <div className="cropCompareOverlay" style={{ width: `${cropPreviewCompare}%` }}>
                           <img className="cropPreviewImage" src={cropPreviewDataUrl} alt={ui.cropCompareAfter} loading="lazy" decoding="async" />
                         </div>
@@ -5798,6 +8175,41 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                   <div className="hint">{ui.noTextLayers}</div>
                 )}
               </div>
+              <div className="label">{ui.translationTitle}</div>
+              <div className="maskShapeRow">
+                <select
+                  className="langSelect settingsLangSelect"
+                  value={translationFormat}
+                  onChange={(e) => setTranslationFormat(e.target.value as TranslationFormat)}
+                  aria-label={ui.translationTitle}
+                >
+                  {TRANSLATION_FORMATS.map((format) => (
+                    <option key={format} value={format}>
+                      {format === 'xliff' ? 'XLIFF 1.2' : format.toUpperCase()}
+                    </option>
+                  ))}
+                </select>
+                <button className="btn" onClick={exportTranslations} disabled={assets.length === 0}>
+                  {ui.translationExport}
+                </button>
+                <label className="btn">
+                  {ui.translationImport}
+                  <input
+                    type="file"
+                    accept=".csv,.json,.xlf,.xliff,.xml"
+                    disabled={assets.length === 0 || !!busy}
+                    onChange={(e) => {
+                      void importTranslations(e.target.files)
+                      e.target.value = ''
+                    }}
+                    style={{ display: 'none' }}
+                  />
+                </label>
+              </div>
+              <div className="hint">{ui.translationHint}</div>
+              <button className={`btn ${findOpen ? 'selected' : ''}`} onClick={() => setFindOpen((v) => !v)} disabled={assets.length === 0}>
+                {ui.findTitle}
+              </button>
             </div>
             ) : null}
 
@@ -5917,6 +8329,79 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
           </div>
         </div>
       ) : null}
+      {findOpen ? (
+        <div className="findPanel">
+          <div className="activityPanelTitleRow">
+            <div className="activityPanelTitle">{ui.findTitle}</div>
+            <button className="btn" onClick={() => setFindOpen(false)}>{ui.shortcutsClose}</button>
+          </div>
+          <div className="findPanelFields">
+            <input
+              className="input"
+              value={findQuery}
+              onChange={(e) => setFindQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setFindOpen(false)
+                if (e.key === 'Enter' && findMatches[0]) jumpToMatch(findMatches[0])
+              }}
+              placeholder={ui.findQueryPlaceholder}
+              aria-label={ui.findQueryPlaceholder}
+              autoFocus
+            />
+            <input
+              className="input"
+              value={findReplacement}
+              onChange={(e) => setFindReplacement(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Escape') setFindOpen(false)
+              }}
+              placeholder={ui.findReplacePlaceholder}
+              aria-label={ui.findReplacePlaceholder}
+            />
+            <div className="maskShapeRow">
+              <button className={`btn ${findCaseSensitive ? 'selected' : ''}`} onClick={() => setFindCaseSensitive((v) => !v)} title={ui.findCaseSensitive}>Aa</button>
+              <button className={`btn ${findWholeWord ? 'selected' : ''}`} onClick={() => setFindWholeWord((v) => !v)} title={ui.findWholeWord}>ab</button>
+              <button className={`btn ${findRegex ? 'selected' : ''}`} onClick={() => setFindRegex((v) => !v)} title={ui.findRegex}>.*</button>
+            </div>
+            <select className="select" value={findScope} onChange={(e) => setFindScope(e.target.value as ExportScope)} aria-label={ui.exportScope}>
+              <option value="current">{ui.exportScopeCurrent}</option>
+              <option value="selected" disabled={!hasSelectedAssets}>{ui.exportScopeSelected}</option>
+              <option value="all">{ui.exportScopeAll}</option>
+            </select>
+            {findPattern.error ? (
+              <div className="hint">{localizeErrorMessage(findPattern.error)}</div>
+            ) : findRegex ? (
+              <div className="hint">{ui.findRegexHint}</div>
+            ) : null}
+            <div className="dialogActions">
+              <span className="hint findCount">{ui.findResults(findMatches.length)}</span>
+              <button className="btn primary" onClick={replaceAllFindMatches} disabled={findMatches.length === 0 || !!busy}>
+                {ui.findReplaceAll}
+              </button>
+            </div>
+          </div>
+          <div className="activityPanelBody">
+            {findMatches.length > 0 ? findMatches.map((match) => {
+              const asset = assets.find((a) => a.id === match.assetId)
+              return (
+                <div key={match.key} className={`activityItem jumpable findItem ${activeId === match.assetId && selectedTextId === match.textId ? 'recent' : ''}`}>
+                  <button className="findItemMain" type="button" onClick={() => jumpToMatch(match)} title={asset?.name}>
+                    <span className="activityKind">{asset?.name ?? match.assetId}</span>
+                    <span className="findPreview">
+                      {match.before}
+                      <mark>{match.match}</mark>
+                      {match.after}
+                    </span>
+                  </button>
+                  <button className="btn" onClick={() => replaceFindMatch(match)} disabled={!!busy}>{ui.findReplaceOne}</button>
+                </div>
+              )
+            }) : (
+              <div className="hint">{ui.findNoResults}</div>
+            )}
+          </div>
+        </div>
+      ) : null}
       {activityMenu ? (
         <div className="activityContextMenu" style={{ left: activityMenu.x, top: activityMenu.y }} onPointerDown={(e) => e.stopPropagation()}>
           <button className="menuItem" onClick={() => { void copyActivityItem(activityMenu.item); setActivityMenu(null) }}>{ui.activityCopyItem}</button>
@@ -5930,7 +8415,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
             <div className="dialogTitle">{ui.activityPreviewTitle}</div>
             {activityPreview.snapshot && activityPreviewCurrentBase ? (
               <div className="activityPreviewCompareWrap">
-                <img className="activityPreviewImage" src={activityPreview.snapshot.baseDataUrl} alt={ui.activityPreviewTitle} />
+                <img className="activityPreviewImage" src={getImageUrl(activityPreview.snapshot.imageId)} alt={ui.activityPreviewTitle} />
                 <img className="activityPreviewImage compareLayer" src={activityPreviewCurrentBase} alt={ui.activityPreviewTitle} style={{ clipPath: `inset(0 ${100 - activityPreviewCompare}% 0 0)` }} />
                 <div className="activityCompareLabels">
                   <span>{ui.activityPreviewBefore}</span>
@@ -5939,7 +8424,7 @@ function estimateTextBoxPx(text: string, item: TextItem, asset: PageAsset): { wi
                 <div className="activityCompareHandle" style={{ left: `${activityPreviewCompare}%` }} />
               </div>
             ) : activityPreview.snapshot ? (
-              <img className="activityPreviewImage" src={activityPreview.snapshot.baseDataUrl} alt={ui.activityPreviewTitle} />
+              <img className="activityPreviewImage" src={getImageUrl(activityPreview.snapshot.imageId)} alt={ui.activityPreviewTitle} />
             ) : (
               <div className="hint">{ui.activityPreviewUnavailable}</div>
             )}
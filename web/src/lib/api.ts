@@ -1,27 +1,161 @@
-export async function inpaintViaApi(opts: {
-  image: Blob
-  mask: Blob
-}): Promise<Blob> {
+export type InpaintModelInfo = {
+  id: string
+  label: string
+  kind: 'neural' | 'classical'
+  available: boolean
+}
+
+export function parseInpaintModels(raw: unknown): InpaintModelInfo[] {
+  if (!Array.isArray(raw)) return []
+  return (raw as Array<Partial<InpaintModelInfo> | null>)
+    .filter((item): item is Partial<InpaintModelInfo> & { id: string } => !!item && typeof item.id === 'string')
+    .map((item) => ({
+      id: item.id,
+      label: typeof item.label === 'string' ? item.label : item.id,
+      kind: item.kind === 'classical' ? 'classical' : 'neural',
+      available: item.available === true,
+    }))
+}
+
+// How the server treats regions larger than the model's working size.
+export type InpaintStrategy = 'auto' | 'direct' | 'tile' | 'resize'
+
+function buildInpaintForm(opts: { image: Blob; mask: Blob; model?: string; strategy?: InpaintStrategy }): FormData {
   const body = new FormData()
+  if (opts.model) body.append('model', opts.model)
+  if (opts.strategy) body.append('strategy', opts.strategy)
   body.append('image', opts.image, 'image.png')
   body.append('mask', opts.mask, 'mask.png')
+  return body
+}
 
-  const res = await fetch('/api/inpaint', {
-    method: 'POST',
-    body,
-  })
+const INPAINT_JOB_STATUSES = ['queued', 'running', 'done', 'failed', 'cancelled'] as const
+
+export type InpaintJobStatus = (typeof INPAINT_JOB_STATUSES)[number]
+
+function isInpaintJobStatus(value: unknown): value is InpaintJobStatus {
+  return (INPAINT_JOB_STATUSES as readonly unknown[]).includes(value)
+}
+
+export type InpaintJobInfo = {
+  id: string
+  status: InpaintJobStatus
+  position: number | null
+  error: string | null
+}
+
+async function readJobInfo(res: Response): Promise<InpaintJobInfo> {
+  const contentType = (res.headers.get('content-type') ?? '').toLowerCase()
+  if (!contentType.includes('application/json')) {
+    const text = await res.text().catch(() => '')
+    const snippet = text.slice(0, 140).replace(/\s+/g, ' ').trim()
+    throw new Error(`ERR_API_BAD_JSON:${snippet}`)
+  }
+  const payload = (await res.json()) as Partial<InpaintJobInfo> & { error?: string | null }
+  if (!res.ok || typeof payload.id !== 'string' || typeof payload.status !== 'string') {
+    throw new Error(`ERR_INPAINT_HTTP:${res.status}:${payload.error ?? ''}`)
+  }
+  // A status the poller does not know would end polling as if the job had settled.
+  if (!isInpaintJobStatus(payload.status)) throw new Error(`ERR_INPAINT_JOB_STATUS:${payload.status}`)
+  return {
+    id: payload.id,
+    status: payload.status,
+    position: typeof payload.position === 'number' ? payload.position : null,
+    error: payload.error ?? null,
+  }
+}
 
+export async function submitInpaintJob(opts: {
+  image: Blob
+  mask: Blob
+  model?: string
+  strategy?: InpaintStrategy
+  signal?: AbortSignal
+}): Promise<InpaintJobInfo> {
+  const body = buildInpaintForm(opts)
+  const res = await fetch('/api/jobs', { method: 'POST', body, signal: opts.signal })
+  return await readJobInfo(res)
+}
+
+export async function getInpaintJob(id: string, signal?: AbortSignal): Promise<InpaintJobInfo> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { signal })
+  return await readJobInfo(res)
+}
+
+export async function cancelInpaintJob(id: string): Promise<InpaintJobInfo> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  return await readJobInfo(res)
+}
+
+export async function fetchInpaintJobResult(id: string, signal?: AbortSignal): Promise<Blob> {
+  const res = await fetch(`/api/jobs/${encodeURIComponent(id)}/result`, { signal })
   if (!res.ok) {
     const text = await res.text().catch(() => '')
     throw new Error(`ERR_INPAINT_HTTP:${res.status}:${text}`)
   }
-
   const contentType = (res.headers.get('content-type') ?? '').toLowerCase()
   if (!contentType.startsWith('image/')) {
     const text = await res.text().catch(() => '')
     const snippet = text.slice(0, 140).replace(/\s+/g, ' ').trim()
     throw new Error(`ERR_INPAINT_NON_IMAGE:${snippet}`)
   }
-
   return await res.blob()
 }
+
+export function isAbortError(e: unknown): boolean {
+  return e instanceof DOMException && e.name === 'AbortError'
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const onAbort = () => {
+      window.clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    const timer = window.setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+export async function inpaintViaJob(opts: {
+  image: Blob
+  mask: Blob
+  model?: string
+  strategy?: InpaintStrategy
+  onStatus?: (job: InpaintJobInfo) => void
+  pollIntervalMs?: number
+  signal?: AbortSignal
+}): Promise<Blob> {
+  const interval = Math.max(200, opts.pollIntervalMs ?? 700)
+  let job = await submitInpaintJob({
+    image: opts.image,
+    mask: opts.mask,
+    model: opts.model,
+    strategy: opts.strategy,
+    signal: opts.signal,
+  })
+  opts.onStatus?.(job)
+
+  try {
+    while (job.status === 'queued' || job.status === 'running') {
+      await wait(interval, opts.signal)
+      job = await getInpaintJob(job.id, opts.signal)
+      opts.onStatus?.(job)
+    }
+
+    if (job.status === 'cancelled') throw new Error('ERR_INPAINT_JOB_CANCELLED')
+    if (job.status === 'failed') throw new Error(`ERR_INPAINT_JOB_FAILED:${job.error ?? ''}`)
+    return await fetchInpaintJobResult(job.id, opts.signal)
+  } catch (e) {
+    // Free the worker slot on the server; the local abort already rejected this call.
+    if (opts.signal?.aborted) void cancelInpaintJob(job.id).catch(() => undefined)
+    throw e
+  }
+}
@@ -0,0 +1,133 @@
+import type { CustomFont } from './fonts'
+import { STORE_AUTOSAVE_FONTS, STORE_AUTOSAVE_IMAGES, STORE_AUTOSAVE_SNAPSHOTS, openLamiviDb, requestToPromise, transactionDone } from './idb'
+import { getImageBlob, putImage } from './imageStore'
+import type { PageAsset } from './types'
+
+export type AutoSaveSlot = {
+  id: string
+  ts: number
+  activeId: string | null
+  pageCount: number
+  textCount: number
+  firstName: string
+}
+
+// Page metadata with images as keys into the image object store. Keys are image store ids, so an
+// image shared by consecutive snapshots is written once.
+type StoredAsset = Omit<PageAsset, 'imageId' | 'originalImageId'> & {
+  image: string
+  original: string
+}
+
+// Uploaded fonts are stored once in their own object store and listed by id. Snapshots written
+// before fonts could be uploaded have no list.
+type StoredSnapshot = AutoSaveSlot & { assets: StoredAsset[]; fontIds?: string[] }
+
+type StoredImage = { key: string; blob: Blob }
+
+function toSlot(snapshot: StoredSnapshot): AutoSaveSlot {
+  const { id, ts, activeId, pageCount, textCount, firstName } = snapshot
+  return { id, ts, activeId, pageCount, textCount, firstName }
+}
+
+// Writes one snapshot, then drops all but the newest `keep` snapshots and any image no longer
+// referenced by them. Images shared between snapshots are stored once.
+export async function writeAutoSaveSnapshot(opts: {
+  assets: PageAsset[]
+  activeId: string | null
+  fonts?: CustomFont[]
+  keep: number
+  ts?: number
+}): Promise<AutoSaveSlot> {
+  const db = await openLamiviDb()
+  const assets: StoredAsset[] = opts.assets.map(({ imageId, originalImageId, ...rest }) => ({
+    ...rest,
+    image: imageId,
+    original: originalImageId ?? imageId,
+  }))
+  const existing = new Set(
+    (await requestToPromise(db.transaction(STORE_AUTOSAVE_IMAGES).objectStore(STORE_AUTOSAVE_IMAGES).getAllKeys())).map(String),
+  )
+  const added = new Set(assets.flatMap((asset) => [asset.image, asset.original]).filter((key) => !existing.has(key)))
+  const fonts = opts.fonts ?? []
+  const existingFonts = new Set(
+    (await requestToPromise(db.transaction(STORE_AUTOSAVE_FONTS).objectStore(STORE_AUTOSAVE_FONTS).getAllKeys())).map(String),
+  )
+
+  const ts = opts.ts ?? Date.now()
+  const slot: AutoSaveSlot = {
+    id: `autosave-${ts}`,
+    ts,
+    activeId: opts.activeId,
+    pageCount: assets.length,
+    textCount: assets.reduce((sum, asset) => sum + asset.texts.length, 0),
+    firstName: assets[0]?.name ?? '',
+  }
+  const tx = db.transaction([STORE_AUTOSAVE_SNAPSHOTS, STORE_AUTOSAVE_IMAGES, STORE_AUTOSAVE_FONTS], 'readwrite')
+  const done = transactionDone(tx)
+  // Observed below; keeps a failed request from also reporting an unhandled rejection.
+  done.catch(() => undefined)
+  const images = tx.objectStore(STORE_AUTOSAVE_IMAGES)
+  const snapshots = tx.objectStore(STORE_AUTOSAVE_SNAPSHOTS)
+  const fontStore = tx.objectStore(STORE_AUTOSAVE_FONTS)
+  for (const key of added) images.put({ key, blob: getImageBlob(key) } satisfies StoredImage)
+  for (const font of fonts) {
+    if (!existingFonts.has(font.id)) fontStore.put(font satisfies CustomFont)
+  }
+  snapshots.put({ ...slot, assets, fontIds: fonts.map((font) => font.id) } satisfies StoredSnapshot)
+
+  const all = ((await requestToPromise(snapshots.getAll())) as StoredSnapshot[]).sort((a, b) => b.ts - a.ts)
+  const kept = all.slice(0, Math.max(1, opts.keep))
+  for (const stale of all.slice(kept.length)) snapshots.delete(stale.id)
+  const live = new Set(kept.flatMap((snapshot) => snapshot.assets.flatMap((asset) => [asset.image, asset.original])))
+  for (const key of await requestToPromise(images.getAllKeys())) {
+    if (!live.has(String(key))) images.delete(key)
+  }
+  const liveFonts = new Set(kept.flatMap((snapshot) => snapshot.fontIds ?? []))
+  for (const key of await requestToPromise(fontStore.getAllKeys())) {
+    if (!liveFonts.has(String(key))) fontStore.delete(key)
+  }
+  await done
+  return slot
+}
+
+// Newest first.
+export async function listAutoSaveSlots(): Promise<AutoSaveSlot[]> {
+  const db = await openLamiviDb()
+  const all = (await requestToPromise(db.transaction(STORE_AUTOSAVE_SNAPSHOTS).objectStore(STORE_AUTOSAVE_SNAPSHOTS).getAll())) as StoredSnapshot[]
+  return all.map(toSlot).sort((a, b) => b.ts - a.ts)
+}
+
+// Fonts come back unregistered; the caller registers them with the document.
+export async function readAutoSaveSnapshot(
+  id: string,
+): Promise<{ assets: PageAsset[]; activeId: string | null; fonts: CustomFont[]; ts: number }> {
+  const db = await openLamiviDb()
+  const tx = db.transaction([STORE_AUTOSAVE_SNAPSHOTS, STORE_AUTOSAVE_IMAGES, STORE_AUTOSAVE_FONTS])
+  const snapshot = (await requestToPromise(tx.objectStore(STORE_AUTOSAVE_SNAPSHOTS).get(id))) as StoredSnapshot | undefined
+  if (!snapshot) throw new Error(`ERR_AUTOSAVE_MISSING:${id}`)
+  const keys = [...new Set(snapshot.assets.flatMap((asset) => [asset.image, asset.original]))]
+  const images = tx.objectStore(STORE_AUTOSAVE_IMAGES)
+  const blobs = await Promise.all(keys.map((key) => requestToPromise(images.get(key)) as Promise<StoredImage | undefined>))
+  for (const [idx, key] of keys.entries()) {
+    const stored = blobs[idx]
+    if (!stored) throw new Error(`ERR_AUTOSAVE_MISSING:${key}`)
+    putImage(stored.blob, key)
+  }
+  const fontStore = tx.objectStore(STORE_AUTOSAVE_FONTS)
+  const storedFonts = await Promise.all(
+    (snapshot.fontIds ?? []).map((key) => requestToPromise(fontStore.get(key)) as Promise<CustomFont | undefined>),
+  )
+  const fonts = storedFonts.filter((font): font is CustomFont => !!font)
+  const assets = snapshot.assets.map(({ image, original, ...rest }) => ({ ...rest, imageId: image, originalImageId: original }))
+  return { assets, activeId: snapshot.activeId, fonts, ts: snapshot.ts }
+}
+
+export async function clearAutoSaveSlots(): Promise<void> {
+  const db = await openLamiviDb()
+  const tx = db.transaction([STORE_AUTOSAVE_SNAPSHOTS, STORE_AUTOSAVE_IMAGES, STORE_AUTOSAVE_FONTS], 'readwrite')
+  tx.objectStore(STORE_AUTOSAVE_SNAPSHOTS).clear()
+  tx.objectStore(STORE_AUTOSAVE_IMAGES).clear()
+  tx.objectStore(STORE_AUTOSAVE_FONTS).clear()
+  await transactionDone(tx)
+}
@@ -0,0 +1,74 @@
+import { type CanvasImageRef, type CanvasJobOp, type CanvasJobParams, type CanvasJobRequest, type CanvasJobResponse, type CanvasJobResult, runCanvasRequest } from './canvasOps'
+import { getImageBlob } from './imageStore'
+
+type PendingJob = {
+  request: CanvasJobRequest
+  // Moved to the worker rather than copied; the caller must not use them afterwards.
+  transfer: Transferable[]
+  resolve: (result: CanvasJobResult<CanvasJobOp>) => void
+  reject: (error: Error) => void
+}
+
+let worker: Worker | null = null
+// Set once the worker fails to start; later jobs then run on the main thread.
+let workerUnavailable = false
+let nextJobId = 0
+const pending = new Map<number, PendingJob>()
+
+function runInThread(job: PendingJob) {
+  runCanvasRequest(job.request).then(job.resolve, job.reject)
+}
+
+function getWorker(): Worker | null {
+  if (worker) return worker
+  if (workerUnavailable || typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') return null
+  try {
+    worker = new Worker(new URL('./canvasWorker.ts', import.meta.url), { type: 'module' })
+  } catch {
+    workerUnavailable = true
+    return null
+  }
+  worker.addEventListener('message', (event: MessageEvent<CanvasJobResponse>) => {
+    const response = event.data
+    const job = pending.get(response.id)
+    if (!job) return
+    pending.delete(response.id)
+    if (response.ok) job.resolve(response.result)
+    else job.reject(new Error(response.error))
+  })
+  // Fires when the script cannot load (e.g. a strict CSP) or the worker crashes; whatever was
+  // queued is redone here rather than lost. Jobs that handed over transferables cannot be: their
+  // inputs went to the dead worker, so they fail and the caller renders them again.
+  worker.addEventListener('error', () => {
+    worker?.terminate()
+    worker = null
+    workerUnavailable = true
+    const queued = [...pending.values()]
+    pending.clear()
+    for (const job of queued) {
+      if (job.transfer.length > 0) job.reject(new Error('ERR_CANVAS_WORKER_FAILED'))
+      else runInThread(job)
+    }
+  })
+  return worker
+}
+
+// Runs a canvas pipeline in the worker, or on the main thread where workers or OffscreenCanvas are
+// missing. `transfer` lists params the caller hands over, such as bitmaps the job closes when done.
+export function canvasJob<K extends CanvasJobOp>(op: K, params: CanvasJobParams<K>, transfer: Transferable[] = []): Promise<CanvasJobResult<K>> {
+  return new Promise<CanvasJobResult<CanvasJobOp>>((resolve, reject) => {
+    nextJobId += 1
+    const job: PendingJob = { request: { id: nextJobId, op, params } as CanvasJobRequest, transfer, resolve, reject }
+    const target = getWorker()
+    if (!target) {
+      runInThread(job)
+      return
+    }
+    pending.set(job.request.id, job)
+    target.postMessage(job.request, job.transfer)
+  }) as Promise<CanvasJobResult<K>>
+}
+
+export function storedImageRef(imageId: string): CanvasImageRef {
+  return { id: imageId, blob: getImageBlob(imageId) }
+}
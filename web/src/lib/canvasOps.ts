@@ -0,0 +1,322 @@
+import { type Canvas2DContext, paintMaskShapes, translateMaskShape } from './maskShapes'
+import type { MaskShape } from './types'
+
+// Pixel pipelines shared by the canvas worker and the in-thread fallback. Everything here draws on
+// OffscreenCanvas when it exists, so none of it may touch the DOM or app state.
+
+export type CanvasRect = { x: number; y: number; width: number; height: number }
+
+export type MaskEdge = { dilate: number; feather: number }
+
+// A page image as sent to the worker. Blobs are passed by reference, so posting one is cheap; the
+// id lets the worker reuse a bitmap it already decoded.
+export type CanvasImageRef = { id: string; blob: Blob }
+
+export type TextColorSample = { background: string; ink: string }
+
+export type ExportMimeType = 'image/png' | 'image/jpeg' | 'image/webp'
+
+export type CanvasJobMap = {
+  // Black page with the mask painted white, as the inpaint API expects.
+  maskPng: { params: { width: number; height: number; strokes: MaskShape[] }; result: Blob }
+  cropRegion: { params: { image: CanvasImageRef; rect: CanvasRect }; result: Blob }
+  // `strokes` are in patch coordinates.
+  mergePatch: {
+    params: { image: CanvasImageRef; rect: CanvasRect; patch: Blob; strokes: MaskShape[]; edge: MaskEdge }
+    result: Blob
+  }
+  // `strokes` are in page coordinates; only `region` is repainted.
+  eraseFill: {
+    params: { image: CanvasImageRef; bounds: CanvasRect; region: CanvasRect; strokes: MaskShape[]; edge: MaskEdge }
+    result: Blob
+  }
+  sampleTextColors: { params: { image: CanvasImageRef; rects: CanvasRect[] }; result: TextColorSample[] }
+  // Page scaled by `pixelRatio` with the text overlay (already rendered at that ratio) on top.
+  composeExport: {
+    params: {
+      image: CanvasImageRef
+      overlay: ImageBitmap | null
+      width: number
+      height: number
+      pixelRatio: number
+      mimeType: ExportMimeType
+      quality?: number
+    }
+    result: Blob
+  }
+}
+
+export type CanvasJobOp = keyof CanvasJobMap
+export type CanvasJobParams<K extends CanvasJobOp> = CanvasJobMap[K]['params']
+export type CanvasJobResult<K extends CanvasJobOp> = CanvasJobMap[K]['result']
+
+export type CanvasJobRequest = { [K in CanvasJobOp]: { id: number; op: K; params: CanvasJobParams<K> } }[CanvasJobOp]
+export type CanvasJobResponse = { id: number; ok: true; result: CanvasJobResult<CanvasJobOp> } | { id: number; ok: false; error: string }
+
+type AnyCanvas = OffscreenCanvas | HTMLCanvasElement
+
+const ERR_CANVAS_UNAVAILABLE = 'ERR_CANVAS_UNAVAILABLE'
+const ERR_PNG_CONVERT_FAILED = 'ERR_PNG_CONVERT_FAILED'
+const ERR_IMAGE_LOAD_FAILED = 'ERR_IMAGE_LOAD_FAILED'
+const COLOR_BUCKET_STEP = 8
+// Manhattan RGB distance below which a pixel counts as background when sampling text colour.
+const INK_MIN_DISTANCE = 90
+// Batch macros hit the same page repeatedly; a couple of decoded pages is enough to cover that.
+const BITMAP_CACHE_LIMIT = 2
+
+const bitmapCache = new Map<string, Promise<ImageBitmap>>()
+
+// HTMLCanvasElement does not exist inside a worker, so test for the offscreen side instead.
+function isOffscreen(canvas: AnyCanvas): canvas is OffscreenCanvas {
+  return typeof OffscreenCanvas !== 'undefined' && canvas instanceof OffscreenCanvas
+}
+
+function createCanvas(width: number, height: number): AnyCanvas {
+  if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(width, height)
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+function context2d(canvas: AnyCanvas, willReadFrequently = false): Canvas2DContext {
+  const ctx = isOffscreen(canvas) ? canvas.getContext('2d', { willReadFrequently }) : canvas.getContext('2d', { willReadFrequently })
+  if (!ctx) throw new Error(ERR_CANVAS_UNAVAILABLE)
+  return ctx
+}
+
+async function encodeCanvas(canvas: AnyCanvas, type: ExportMimeType = 'image/png', quality?: number): Promise<Blob> {
+  const blob: Blob | null = isOffscreen(canvas)
+    ? await canvas.convertToBlob({ type, quality }).catch(() => null)
+    : await new Promise((resolve) => canvas.toBlob(resolve, type, quality))
+  if (!blob) throw new Error(ERR_PNG_CONVERT_FAILED)
+  return blob
+}
+
+function decodeImage(image: CanvasImageRef): Promise<ImageBitmap> {
+  const cached = bitmapCache.get(image.id)
+  if (cached) return cached
+  const pending = createImageBitmap(image.blob).catch(() => {
+    bitmapCache.delete(image.id)
+    throw new Error(ERR_IMAGE_LOAD_FAILED)
+  })
+  bitmapCache.set(image.id, pending)
+  while (bitmapCache.size > BITMAP_CACHE_LIMIT) {
+    const oldest = bitmapCache.keys().next().value
+    if (oldest === undefined) break
+    const evicted = bitmapCache.get(oldest)
+    bitmapCache.delete(oldest)
+    // Jobs draw a bitmap in the same tick its promise resolves for them, and they awaited it before
+    // this close was queued, so releasing the pixels here cannot pull it out from under one.
+    void evicted?.then((bitmap) => bitmap.close(), () => undefined)
+  }
+  return pending
+}
+
+async function drawPage(image: CanvasImageRef, willReadFrequently = false): Promise<{ canvas: AnyCanvas; ctx: Canvas2DContext }> {
+  const bitmap = await decodeImage(image)
+  const canvas = createCanvas(bitmap.width, bitmap.height)
+  const ctx = context2d(canvas, willReadFrequently)
+  ctx.drawImage(bitmap, 0, 0)
+  return { canvas, ctx }
+}
+
+// White-on-transparent mask grown by `grow` px and softened by `feather` px, for use as an alpha matte.
+function renderMaskAlpha(width: number, height: number, strokes: MaskShape[], grow: number, feather: number): AnyCanvas {
+  const canvas = createCanvas(width, height)
+  const ctx = context2d(canvas)
+  if (feather > 0) ctx.filter = `blur(${feather / 2}px)`
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  paintMaskShapes(ctx, strokes, grow)
+  return canvas
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value))
+}
+
+function parseRgb(color: string): [number, number, number] {
+  const [r = 0, g = 0, b = 0] = color.match(/\d+/g)?.map(Number) ?? []
+  return [r, g, b]
+}
+
+function rgbToHex(r: number, g: number, b: number): string {
+  return `#${[r, g, b].map((n) => clamp(Math.round(n), 0, 255).toString(16).padStart(2, '0')).join('')}`
+}
+
+type ColorBucket = { count: number; r: number; g: number; b: number }
+
+function addToBucket(buckets: Map<string, ColorBucket>, r: number, g: number, b: number) {
+  const step = COLOR_BUCKET_STEP
+  const key = `${Math.floor(r / step)},${Math.floor(g / step)},${Math.floor(b / step)}`
+  const prev = buckets.get(key)
+  if (prev) {
+    prev.count += 1
+    prev.r += r
+    prev.g += g
+    prev.b += b
+  } else {
+    buckets.set(key, { count: 1, r, g, b })
+  }
+}
+
+function largestBucket(buckets: Map<string, ColorBucket>): ColorBucket | null {
+  let best: ColorBucket | null = null
+  for (const entry of buckets.values()) {
+    if (!best || entry.count > best.count) best = entry
+  }
+  return best
+}
+
+// Most common colour in a band around `rect`, i.e. the background the rect sits on.
+function dominantNeighborColor(ctx: Canvas2DContext, width: number, height: number, rect: CanvasRect): string {
+  const pad = clamp(Math.round(Math.max(6, Math.min(width, height) * 0.01)), 6, 28)
+  const x1 = clamp(rect.x - pad, 0, width)
+  const y1 = clamp(rect.y - pad, 0, height)
+  const x2 = clamp(rect.x + rect.width + pad, 0, width)
+  const y2 = clamp(rect.y + rect.height + pad, 0, height)
+  const buckets = new Map<string, ColorBucket>()
+
+  function sampleRegion(sx: number, sy: number, sw: number, sh: number) {
+    if (sw <= 0 || sh <= 0) return
+    const data = ctx.getImageData(sx, sy, sw, sh).data
+    for (let i = 0; i < data.length; i += 4) {
+      if ((data[i + 3] ?? 0) < 8) continue
+      addToBucket(buckets, data[i] ?? 0, data[i + 1] ?? 0, data[i + 2] ?? 0)
+    }
+  }
+
+  sampleRegion(x1, y1, x2 - x1, Math.max(0, rect.y - y1))
+  sampleRegion(x1, rect.y + rect.height, x2 - x1, Math.max(0, y2 - (rect.y + rect.height)))
+  sampleRegion(x1, rect.y, Math.max(0, rect.x - x1), rect.height)
+  sampleRegion(rect.x + rect.width, rect.y, Math.max(0, x2 - (rect.x + rect.width)), rect.height)
+
+  const best = largestBucket(buckets)
+  if (!best) return 'rgb(255, 255, 255)'
+  return `rgb(${Math.round(best.r / best.count)}, ${Math.round(best.g / best.count)}, ${Math.round(best.b / best.count)})`
+}
+
+// Most common colour inside `rect` that is clearly distinct from the surrounding background, i.e. the glyph ink.
+function dominantInkColor(ctx: Canvas2DContext, rect: CanvasRect, background: string): string {
+  const [br, bg, bb] = parseRgb(background)
+  const buckets = new Map<string, ColorBucket>()
+  if (rect.width > 0 && rect.height > 0) {
+    const data = ctx.getImageData(rect.x, rect.y, rect.width, rect.height).data
+    for (let i = 0; i < data.length; i += 4) {
+      if ((data[i + 3] ?? 0) < 8) continue
+      const r = data[i] ?? 0
+      const g = data[i + 1] ?? 0
+      const b = data[i + 2] ?? 0
+      if (Math.abs(r - br) + Math.abs(g - bg) + Math.abs(b - bb) < INK_MIN_DISTANCE) continue
+      addToBucket(buckets, r, g, b)
+    }
+  }
+  const best = largestBucket(buckets)
+  if (!best) return br * 0.299 + bg * 0.587 + bb * 0.114 > 128 ? '#111111' : '#ffffff'
+  return rgbToHex(best.r / best.count, best.g / best.count, best.b / best.count)
+}
+
+async function maskPng(params: CanvasJobParams<'maskPng'>): Promise<Blob> {
+  const canvas = createCanvas(params.width, params.height)
+  const ctx = context2d(canvas)
+  ctx.fillStyle = 'black'
+  ctx.fillRect(0, 0, params.width, params.height)
+  ctx.lineCap = 'round'
+  ctx.lineJoin = 'round'
+  paintMaskShapes(ctx, params.strokes, 0, 'black')
+  return await encodeCanvas(canvas)
+}
+
+// The canvas starts transparent and is encoded as PNG, so the region keeps its alpha channel.
+async function cropRegion(params: CanvasJobParams<'cropRegion'>): Promise<Blob> {
+  const { rect } = params
+  const source = await decodeImage(params.image)
+  const canvas = createCanvas(rect.width, rect.height)
+  context2d(canvas).drawImage(source, rect.x, rect.y, rect.width, rect.height, 0, 0, rect.width, rect.height)
+  return await encodeCanvas(canvas)
+}
+
+// Writes back only the masked pixels of the patch plus the dilated/feathered edge, so the
+// context around the mask keeps its original pixels.
+// Pixels under the matte are replaced rather than painted over, so transparency in the patch survives.
+async function mergePatch(params: CanvasJobParams<'mergePatch'>): Promise<Blob> {
+  const { rect, edge } = params
+  const [{ canvas, ctx }, patchImage] = await Promise.all([
+    drawPage(params.image),
+    createImageBitmap(params.patch).catch(() => {
+      throw new Error(ERR_IMAGE_LOAD_FAILED)
+    }),
+  ])
+  const patch = createCanvas(rect.width, rect.height)
+  const patchCtx = context2d(patch)
+  const matte = renderMaskAlpha(rect.width, rect.height, params.strokes, edge.dilate, edge.feather)
+  patchCtx.drawImage(patchImage, 0, 0, rect.width, rect.height)
+  patchImage.close()
+  patchCtx.globalCompositeOperation = 'destination-in'
+  patchCtx.drawImage(matte, 0, 0)
+
+  // base * (1 - matte) + patch * matte, in premultiplied alpha.
+  ctx.globalCompositeOperation = 'destination-out'
+  ctx.drawImage(matte, rect.x, rect.y)
+  ctx.globalCompositeOperation = 'lighter'
+  ctx.drawImage(patch, rect.x, rect.y)
+  return await encodeCanvas(canvas)
+}
+
+// Fills the mask with the surrounding background colour through the same dilated/feathered
+// matte the AI restore uses, limited to the mask's neighbourhood.
+async function eraseFill(params: CanvasJobParams<'eraseFill'>): Promise<Blob> {
+  const { region, edge } = params
+  const { canvas, ctx } = await drawPage(params.image, true)
+  const fillColor = dominantNeighborColor(ctx, canvas.width, canvas.height, params.bounds)
+  const shifted = params.strokes.map((shape) => translateMaskShape(shape, region.x, region.y))
+  const layer = renderMaskAlpha(region.width, region.height, shifted, edge.dilate, edge.feather)
+  const layerCtx = context2d(layer)
+  layerCtx.filter = 'none'
+  layerCtx.globalCompositeOperation = 'source-in'
+  layerCtx.fillStyle = fillColor
+  layerCtx.fillRect(0, 0, region.width, region.height)
+  ctx.drawImage(layer, region.x, region.y)
+  return await encodeCanvas(canvas)
+}
+
+// Background and ink colour for each rect, sampled from the page before its lettering is removed.
+async function sampleTextColors(params: CanvasJobParams<'sampleTextColors'>): Promise<TextColorSample[]> {
+  const { canvas, ctx } = await drawPage(params.image, true)
+  return params.rects.map((rect) => {
+    const background = dominantNeighborColor(ctx, canvas.width, canvas.height, rect)
+    const [r, g, b] = parseRgb(background)
+    return { background: rgbToHex(r, g, b), ink: dominantInkColor(ctx, rect, background) }
+  })
+}
+
+async function composeExport(params: CanvasJobParams<'composeExport'>): Promise<Blob> {
+  const width = Math.max(1, Math.round(params.width * params.pixelRatio))
+  const height = Math.max(1, Math.round(params.height * params.pixelRatio))
+  const base = await decodeImage(params.image)
+  const canvas = createCanvas(width, height)
+  const ctx = context2d(canvas)
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(base, 0, 0, width, height)
+  if (params.overlay) {
+    ctx.drawImage(params.overlay, 0, 0, width, height)
+    params.overlay.close()
+  }
+  return await encodeCanvas(canvas, params.mimeType, params.quality)
+}
+
+const HANDLERS: { [K in CanvasJobOp]: (params: CanvasJobParams<K>) => Promise<CanvasJobResult<K>> } = {
+  maskPng,
+  cropRegion,
+  mergePatch,
+  eraseFill,
+  sampleTextColors,
+  composeExport,
+}
+
+export function runCanvasRequest(request: CanvasJobRequest): Promise<CanvasJobResult<CanvasJobOp>> {
+  // The request union keeps `op` and `params` paired, but TypeScript cannot correlate them through the lookup.
+  const handler = HANDLERS[request.op] as (params: CanvasJobRequest['params']) => Promise<CanvasJobResult<CanvasJobOp>>
+  return handler(request.params)
+}
@@ -0,0 +1,9 @@
+import { type CanvasJobRequest, type CanvasJobResponse, runCanvasRequest } from './canvasOps'
+
+// Worker entry for the canvas pipelines; the app talks to it through lib/canvasJobs.
+self.addEventListener('message', (event: MessageEvent<CanvasJobRequest>) => {
+  const { id } = event.data
+  void runCanvasRequest(event.data)
+    .then((result) => self.postMessage({ id, ok: true, result } satisfies CanvasJobResponse))
+    .catch((e: unknown) => self.postMessage({ id, ok: false, error: e instanceof Error ? e.message : String(e) } satisfies CanvasJobResponse))
+})
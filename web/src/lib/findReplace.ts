@@ -0,0 +1,99 @@
+import type { PageAsset } from './types'
+
+export type FindOptions = {
+  query: string
+  caseSensitive: boolean
+  regex: boolean
+  wholeWord: boolean
+}
+
+export type TextMatch = {
+  key: string
+  assetId: string
+  textId: string
+  index: number
+  length: number
+  before: string
+  match: string
+  after: string
+}
+
+const PREVIEW_CONTEXT = 24
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+// Global, unicode pattern for the options; null when the query is empty. Whole-word uses letter/digit
+// lookarounds instead of \b so Hangul and other non-ASCII words are delimited correctly.
+export function buildFindPattern(opts: FindOptions): RegExp | null {
+  if (!opts.query) return null
+  let source = opts.regex ? opts.query : escapeRegExp(opts.query)
+  if (opts.wholeWord) source = `(?<![\\p{L}\\p{N}_])(?:${source})(?![\\p{L}\\p{N}_])`
+  try {
+    return new RegExp(source, `gu${opts.caseSensitive ? '' : 'i'}`)
+  } catch (e) {
+    throw new Error(`ERR_FIND_REGEX:${e instanceof Error ? e.message : String(e)}`)
+  }
+}
+
+export function findTextMatches(assets: PageAsset[], pattern: RegExp): TextMatch[] {
+  const matches: TextMatch[] = []
+  for (const asset of assets) {
+    for (const text of asset.texts) {
+      for (const m of text.text.matchAll(pattern)) {
+        // Zero-length regex matches (e.g. `^`) cannot be replaced meaningfully.
+        if (m[0].length === 0) continue
+        const index = m.index ?? 0
+        matches.push({
+          key: `${asset.id}:${text.id}:${index}`,
+          assetId: asset.id,
+          textId: text.id,
+          index,
+          length: m[0].length,
+          before: text.text.slice(Math.max(0, index - PREVIEW_CONTEXT), index),
+          match: m[0],
+          after: text.text.slice(index + m[0].length, index + m[0].length + PREVIEW_CONTEXT),
+        })
+      }
+    }
+  }
+  return matches
+}
+
+// The replacement for the match at `index`, with `$1`, `$&`, `$<name>` and the rest expanded by the
+// engine itself. The sticky regex runs over the whole text, so lookarounds still see their context.
+function expandReplacementAt(text: string, pattern: RegExp, index: number, length: number, replacement: string): string | null {
+  const sticky = new RegExp(pattern.source, `${pattern.flags.replace('g', '')}y`)
+  sticky.lastIndex = index
+  const m = sticky.exec(text)
+  if (!m || m[0].length !== length) return null
+  sticky.lastIndex = index
+  const replaced = text.replace(sticky, replacement)
+  return replaced.slice(index, replaced.length - (text.length - index - length))
+}
+
+// Regex mode honours `$1`-style references; literal mode inserts the replacement verbatim. Like
+// findTextMatches, zero-length matches are left alone.
+export function replaceAllInText(text: string, pattern: RegExp, replacement: string, regex: boolean): { text: string; count: number } {
+  let count = 0
+  let result = ''
+  let last = 0
+  for (const m of text.matchAll(pattern)) {
+    if (m[0].length === 0) continue
+    const index = m.index ?? 0
+    result += text.slice(last, index)
+    result += regex ? (expandReplacementAt(text, pattern, index, m[0].length, replacement) ?? m[0]) : replacement
+    last = index + m[0].length
+    count += 1
+  }
+  if (count === 0) return { text, count }
+  return { text: result + text.slice(last), count }
+}
+
+export function replaceMatchInText(text: string, match: TextMatch, pattern: RegExp, replacement: string, regex: boolean): string {
+  if (text.slice(match.index, match.index + match.length) !== match.match) return text
+  const expanded = regex ? expandReplacementAt(text, pattern, match.index, match.length, replacement) : replacement
+  if (expanded === null) return text
+  return `${text.slice(0, match.index)}${expanded}${text.slice(match.index + match.length)}`
+}
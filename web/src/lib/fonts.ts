@@ -0,0 +1,88 @@
+// Fonts uploaded by the user. They are registered with the document through the FontFace API, so
+// the stage and every canvas export draw with the same file on any machine, and they travel with
+// autosaves and project files.
+export type CustomFont = {
+  id: string
+  // Family name text items refer to in `fontFamily`.
+  family: string
+  fileName: string
+  blob: Blob
+}
+
+const FONT_MIME_TYPES: Record<string, string> = {
+  ttf: 'font/ttf',
+  otf: 'font/otf',
+  woff2: 'font/woff2',
+}
+
+export const FONT_FILE_ACCEPT = Object.keys(FONT_MIME_TYPES)
+  .map((ext) => `.${ext}`)
+  .join(',')
+
+const faces = new Map<string, FontFace>()
+let nextSeq = 0
+
+function createFontId(): string {
+  nextSeq += 1
+  return `font-${Date.now().toString(36)}-${nextSeq.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function fileExtension(name: string): string {
+  return name.slice(name.lastIndexOf('.') + 1).toLowerCase()
+}
+
+// Family names end up inside CSS font lists and Konva splits those on commas, so quotes and
+// separators are dropped.
+function familyFromFileName(name: string, taken: Set<string>): string {
+  const dot = name.lastIndexOf('.')
+  const base = (dot > 0 ? name.slice(0, dot) : name).replace(/["',;\\]/g, '').trim() || 'Custom Font'
+  let family = base
+  for (let n = 2; taken.has(family); n += 1) family = `${base} ${n}`
+  return family
+}
+
+export function fontFileMime(fileName: string): string {
+  return FONT_MIME_TYPES[fileExtension(fileName)] ?? 'application/octet-stream'
+}
+
+// Reads an uploaded file and registers it under a family name not in `takenFamilies`.
+export async function loadFontFile(file: File, takenFamilies: Set<string>): Promise<CustomFont> {
+  if (!(fileExtension(file.name) in FONT_MIME_TYPES)) throw new Error(`ERR_FONT_UNSUPPORTED:${file.name}`)
+  const font: CustomFont = {
+    id: createFontId(),
+    family: familyFromFileName(file.name, takenFamilies),
+    fileName: file.name,
+    blob: file.type ? file : new Blob([file], { type: fontFileMime(file.name) }),
+  }
+  await registerFont(font)
+  return font
+}
+
+// Adds the font to `document.fonts`, replacing an earlier registration of the same id.
+export async function registerFont(font: CustomFont): Promise<void> {
+  if (faces.get(font.id)?.family === font.family) return
+  let face: FontFace
+  try {
+    face = new FontFace(font.family, await font.blob.arrayBuffer())
+    await face.load()
+  } catch {
+    throw new Error(`ERR_FONT_LOAD_FAILED:${font.fileName}`)
+  }
+  unregisterFont(font.id)
+  document.fonts.add(face)
+  faces.set(font.id, face)
+}
+
+export function unregisterFont(id: string) {
+  const face = faces.get(id)
+  if (!face) return
+  document.fonts.delete(face)
+  faces.delete(id)
+}
+
+// jsPDF can only embed TrueType outlines: .ttf files and .otf files built from glyf tables.
+export async function isTrueTypeFont(font: CustomFont): Promise<boolean> {
+  const head = new Uint8Array(await font.blob.slice(0, 4).arrayBuffer())
+  const tag = String.fromCharCode(...head)
+  return tag === '\u0000\u0001\u0000\u0000' || tag === 'true'
+}
@@ -0,0 +1,145 @@
+import { STORE_HISTORY_IMAGES, STORE_HISTORY_STATE, openLamiviDb, requestToPromise, transactionDone } from './idb'
+import { getImageBlob, hasImage, imageBytes, putImage } from './imageStore'
+import type { PageAsset } from './types'
+
+// Pages are immutable and reference images by id, so an entry shares every page it did not change
+// with its neighbours and never copies pixels.
+export type HistoryRecord = {
+  label: string
+  timestamp: number
+  activeId: string | null
+  assets: PageAsset[]
+}
+
+type PersistedHistory = {
+  id: string
+  savedAt: number
+  // Autosave slot holding the pages this history leads up to; it is only restored with that slot.
+  slotId: string | null
+  past: HistoryRecord[]
+  future: HistoryRecord[]
+}
+
+type StoredImage = { key: string; blob: Blob }
+
+const PERSISTED_ID = 'session'
+
+export function recordHistory(label: string, assets: PageAsset[], activeId: string | null): HistoryRecord {
+  return { label, timestamp: Date.now(), activeId, assets }
+}
+
+export function restoreHistoryRecord(record: HistoryRecord): { assets: PageAsset[]; activeId: string | null } {
+  for (const asset of record.assets) {
+    if (!hasImage(asset.imageId)) throw new Error(`ERR_HISTORY_MISSING:${asset.imageId}`)
+  }
+  return { assets: record.assets, activeId: record.activeId }
+}
+
+function assetImageIds(assets: PageAsset[]): string[] {
+  return assets.flatMap((asset) => (asset.originalImageId ? [asset.imageId, asset.originalImageId] : [asset.imageId]))
+}
+
+function recordKeys(record: HistoryRecord): Set<string> {
+  return new Set(assetImageIds(record.assets))
+}
+
+// Every image id referenced by the given entries.
+export function historyImageIds(records: HistoryRecord[]): Set<string> {
+  return new Set(records.flatMap((record) => assetImageIds(record.assets)))
+}
+
+// Bytes held only by history: images the current pages also use are not counted.
+export function historyRetainedBytes(records: HistoryRecord[], current: PageAsset[]): number {
+  const inUse = new Set(assetImageIds(current))
+  let bytes = 0
+  for (const key of historyImageIds(records)) {
+    if (!inUse.has(key)) bytes += imageBytes(key)
+  }
+  return bytes
+}
+
+// Drops the oldest undo entries, then the farthest redo entries, until the images held only by
+// history fit in `budgetBytes`. The nearest undo and redo entries are always kept.
+export function trimHistoryToBudget(
+  past: HistoryRecord[],
+  future: HistoryRecord[],
+  current: PageAsset[],
+  budgetBytes: number,
+): { past: HistoryRecord[]; future: HistoryRecord[]; dropped: number } {
+  const inUse = new Set(assetImageIds(current))
+  const refs = new Map<string, number>()
+  const keysByRecord = new Map<HistoryRecord, Set<string>>()
+  for (const record of [...past, ...future]) {
+    const keys = recordKeys(record)
+    keysByRecord.set(record, keys)
+    for (const key of keys) refs.set(key, (refs.get(key) ?? 0) + 1)
+  }
+  let retained = 0
+  for (const key of refs.keys()) {
+    if (!inUse.has(key)) retained += imageBytes(key)
+  }
+  if (retained <= budgetBytes) return { past, future, dropped: 0 }
+
+  const drop = (record: HistoryRecord) => {
+    for (const key of keysByRecord.get(record) ?? []) {
+      const left = (refs.get(key) ?? 1) - 1
+      refs.set(key, left)
+      if (left === 0 && !inUse.has(key)) retained -= imageBytes(key)
+    }
+  }
+  let pastStart = 0
+  while (retained > budgetBytes && pastStart < past.length - 1) drop(past[pastStart++]!)
+  let futureStart = 0
+  while (retained > budgetBytes && futureStart < future.length - 1) drop(future[futureStart++]!)
+  return { past: past.slice(pastStart), future: future.slice(futureStart), dropped: pastStart + futureStart }
+}
+
+export async function persistHistory(past: HistoryRecord[], future: HistoryRecord[], slotId: string | null): Promise<void> {
+  const db = await openLamiviDb()
+  const live = historyImageIds([...past, ...future])
+  const existing = new Set(
+    (await requestToPromise(db.transaction(STORE_HISTORY_IMAGES).objectStore(STORE_HISTORY_IMAGES).getAllKeys())).map(String),
+  )
+  const tx = db.transaction([STORE_HISTORY_STATE, STORE_HISTORY_IMAGES], 'readwrite')
+  const done = transactionDone(tx)
+  const images = tx.objectStore(STORE_HISTORY_IMAGES)
+  for (const key of live) {
+    if (!existing.has(key) && hasImage(key)) images.put({ key, blob: getImageBlob(key) } satisfies StoredImage)
+  }
+  for (const key of existing) {
+    if (!live.has(key)) images.delete(key)
+  }
+  tx.objectStore(STORE_HISTORY_STATE).put({ id: PERSISTED_ID, savedAt: Date.now(), slotId, past, future } satisfies PersistedHistory)
+  await done
+}
+
+// Returns the stored history if it belongs to the autosave slot being restored. History saved with
+// any other slot would undo into a different document, so it is cleared instead.
+export async function loadPersistedHistory(slotId: string): Promise<{ past: HistoryRecord[]; future: HistoryRecord[] } | null> {
+  const db = await openLamiviDb()
+  const tx = db.transaction([STORE_HISTORY_STATE, STORE_HISTORY_IMAGES])
+  const saved = (await requestToPromise(tx.objectStore(STORE_HISTORY_STATE).get(PERSISTED_ID))) as PersistedHistory | undefined
+  if (!saved) return null
+  if (saved.slotId !== slotId) {
+    await clearPersistedHistory()
+    return null
+  }
+  const { past, future } = saved
+  const keys = [...historyImageIds([...past, ...future])]
+  const images = tx.objectStore(STORE_HISTORY_IMAGES)
+  const stored = await Promise.all(keys.map((key) => requestToPromise(images.get(key)) as Promise<StoredImage | undefined>))
+  for (const [idx, key] of keys.entries()) {
+    const blob = stored[idx]?.blob
+    if (!blob) throw new Error(`ERR_HISTORY_MISSING:${key}`)
+    putImage(blob, key)
+  }
+  return { past, future }
+}
+
+export async function clearPersistedHistory(): Promise<void> {
+  const db = await openLamiviDb()
+  const tx = db.transaction([STORE_HISTORY_STATE, STORE_HISTORY_IMAGES], 'readwrite')
+  tx.objectStore(STORE_HISTORY_STATE).clear()
+  tx.objectStore(STORE_HISTORY_IMAGES).clear()
+  await transactionDone(tx)
+}
@@ -0,0 +1,72 @@
+const DB_NAME = 'lamivi'
+const DB_VERSION = 3
+
+export const STORE_AUTOSAVE_SNAPSHOTS = 'autosave-snapshots'
+export const STORE_AUTOSAVE_IMAGES = 'autosave-images'
+export const STORE_AUTOSAVE_FONTS = 'autosave-fonts'
+export const STORE_HISTORY_STATE = 'history-state'
+export const STORE_HISTORY_IMAGES = 'history-images'
+
+// keyPath per object store; upgrades only create stores that are missing, so bumping
+// DB_VERSION to add a store keeps existing data.
+const STORES: Record<string, string> = {
+  [STORE_AUTOSAVE_SNAPSHOTS]: 'id',
+  [STORE_AUTOSAVE_IMAGES]: 'key',
+  [STORE_AUTOSAVE_FONTS]: 'id',
+  [STORE_HISTORY_STATE]: 'id',
+  [STORE_HISTORY_IMAGES]: 'key',
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function openLamiviDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('ERR_IDB_UNAVAILABLE'))
+      return
+    }
+    const req = indexedDB.open(DB_NAME, DB_VERSION)
+    req.onupgradeneeded = () => {
+      const db = req.result
+      for (const [name, keyPath] of Object.entries(STORES)) {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name, { keyPath })
+      }
+    }
+    req.onsuccess = () => {
+      const db = req.result
+      // Another tab upgrading the schema needs this connection out of the way.
+      db.onversionchange = () => {
+        db.close()
+        dbPromise = null
+      }
+      resolve(db)
+    }
+    req.onerror = () => reject(req.error ?? new Error('ERR_IDB_UNAVAILABLE'))
+    req.onblocked = () => reject(new Error('ERR_IDB_UNAVAILABLE:blocked'))
+  }).catch((e: unknown) => {
+    dbPromise = null
+    throw e
+  })
+  return dbPromise
+}
+
+export function requestToPromise<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result)
+    req.onerror = () => reject(req.error)
+  })
+}
+
+// Resolves once the transaction commits; quota failures surface here rather than on the put request.
+export function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+}
+
+export function isQuotaError(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+}
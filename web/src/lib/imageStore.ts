@@ -0,0 +1,105 @@
+import { dataUrlToBlob } from './download'
+
+// Page images live here as Blobs keyed by id; pages, history entries and saved snapshots only hold
+// the ids. An id always names the same pixels, so edits store a new image instead of replacing one.
+type StoredImageEntry = {
+  blob: Blob
+  addedAt: number
+  url: string | null
+}
+
+// Decoded bitmaps are several times larger than the encoded blobs, so only the most recently used
+// few stay cached. Evicted bitmaps are left to the garbage collector rather than closed, since the
+// stage may still be drawing one.
+const BITMAP_CACHE_LIMIT = 6
+
+const images = new Map<string, StoredImageEntry>()
+const bitmaps = new Map<string, Promise<ImageBitmap>>()
+let nextSeq = 0
+
+function createImageId(): string {
+  nextSeq += 1
+  return `img-${Date.now().toString(36)}-${nextSeq.toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+function requireEntry(id: string): StoredImageEntry {
+  const entry = images.get(id)
+  if (!entry) throw new Error(`ERR_IMAGE_MISSING:${id}`)
+  return entry
+}
+
+// Stores `blob` and returns its id. Passing the id an image was saved under (autosave, history,
+// project) reuses it, so the same pixels are not held twice.
+export function putImage(blob: Blob, id?: string): string {
+  if (id && images.has(id)) return id
+  const key = id ?? createImageId()
+  images.set(key, { blob, addedAt: Date.now(), url: null })
+  return key
+}
+
+export async function putImageDataUrl(dataUrl: string, id?: string): Promise<string> {
+  if (id && images.has(id)) return id
+  return putImage(await dataUrlToBlob(dataUrl), id)
+}
+
+export function hasImage(id: string): boolean {
+  return images.has(id)
+}
+
+export function getImageBlob(id: string): Blob {
+  return requireEntry(id).blob
+}
+
+export function imageBytes(id: string): number {
+  return images.get(id)?.blob.size ?? 0
+}
+
+// Object URL for <img> elements; created on first use and revoked when the image is released.
+export function getImageUrl(id: string): string {
+  const entry = images.get(id)
+  if (!entry) return ''
+  entry.url ??= URL.createObjectURL(entry.blob)
+  return entry.url
+}
+
+export function getImageBitmap(id: string): Promise<ImageBitmap> {
+  const cached = bitmaps.get(id)
+  if (cached) {
+    // Re-insert to mark it most recently used.
+    bitmaps.delete(id)
+    bitmaps.set(id, cached)
+    return cached
+  }
+  let entry: StoredImageEntry
+  try {
+    entry = requireEntry(id)
+  } catch (e) {
+    return Promise.reject(e)
+  }
+  const pending = createImageBitmap(entry.blob).catch(() => {
+    bitmaps.delete(id)
+    throw new Error('ERR_IMAGE_LOAD_FAILED')
+  })
+  bitmaps.set(id, pending)
+  while (bitmaps.size > BITMAP_CACHE_LIMIT) {
+    const oldest = bitmaps.keys().next().value
+    if (oldest === undefined) break
+    bitmaps.delete(oldest)
+  }
+  return pending
+}
+
+// Releases every image not in `live`. Images stored within `graceMs` are kept: a pipeline may have
+// stored its result but not yet committed the page that references it.
+export function releaseUnusedImages(live: Set<string>, graceMs = 0): number {
+  const cutoff = Date.now() - graceMs
+  let released = 0
+  for (const [id, entry] of images) {
+    if (live.has(id) || entry.addedAt > cutoff) continue
+    if (entry.url) URL.revokeObjectURL(entry.url)
+    images.delete(id)
+    bitmaps.delete(id)
+    released += 1
+  }
+  return released
+}
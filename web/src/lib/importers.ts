@@ -2,37 +2,29 @@ import * as pdfjs from 'pdfjs-dist'
 
 export type ImportedBitmap = {
   name: string
-  dataUrl: string
+  blob: Blob
   width: number
   height: number
 }
 
-async function readFileAsDataUrl(file: File): Promise<string> {
-  return await new Promise((resolve, reject) => {
-    const reader = new FileReader()
-    reader.onerror = () => reject(new Error('ERR_IMPORT_READ_FILE'))
-    reader.onload = () => resolve(String(reader.result ?? ''))
-    reader.readAsDataURL(file)
-  })
-}
-
-async function loadImageFromDataUrl(dataUrl: string): Promise<HTMLImageElement> {
-  return await new Promise((resolve, reject) => {
-    const img = new Image()
-    img.onload = () => resolve(img)
-    img.onerror = () => reject(new Error('ERR_IMPORT_IMAGE_LOAD'))
-    img.src = dataUrl
-  })
+async function measureImage(blob: Blob): Promise<{ width: number; height: number }> {
+  try {
+    const bitmap = await createImageBitmap(blob)
+    const size = { width: bitmap.width, height: bitmap.height }
+    bitmap.close()
+    return size
+  } catch {
+    throw new Error('ERR_IMPORT_IMAGE_LOAD')
+  }
 }
 
 export async function importImageFile(file: File): Promise<ImportedBitmap> {
-  const dataUrl = await readFileAsDataUrl(file)
-  const img = await loadImageFromDataUrl(dataUrl)
+  const { width, height } = await measureImage(file)
   return {
     name: file.name,
-    dataUrl,
-    width: img.naturalWidth || img.width,
-    height: img.naturalHeight || img.height,
+    blob: file,
+    width,
+    height,
   }
 }
 
@@ -53,11 +45,12 @@ export async function importPdfFile(file: File): Promise<ImportedBitmap[]> {
     if (!ctx) throw new Error('ERR_CANVAS_INIT_FAILED')
 
     await page.render({ canvasContext: ctx, viewport, canvas }).promise
-    const dataUrl = canvas.toDataURL('image/png')
+    const blob: Blob | null = await new Promise((resolve) => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('ERR_CANVAS_INIT_FAILED')
 
     out.push({
       name: `${file.name}#${i}`,
-      dataUrl,
+      blob,
       width: canvas.width,
       height: canvas.height,
     })
@@ -0,0 +1,115 @@
+import type { MaskShape, MaskStroke } from './types'
+
+// Mask painting runs on page canvases and, in the canvas worker, on OffscreenCanvas.
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export type MaskBounds = {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+export function isMaskStroke(shape: MaskShape): shape is MaskStroke {
+  return shape.kind === undefined || shape.kind === 'stroke'
+}
+
+export function maskShapeBounds(shape: MaskShape): MaskBounds | null {
+  if (shape.kind === 'rect' || shape.kind === 'ellipse') {
+    return { minX: shape.x, minY: shape.y, maxX: shape.x + shape.width, maxY: shape.y + shape.height }
+  }
+  const half = isMaskStroke(shape) ? shape.strokeWidth / 2 : 0
+  let minX = Number.POSITIVE_INFINITY
+  let minY = Number.POSITIVE_INFINITY
+  let maxX = Number.NEGATIVE_INFINITY
+  let maxY = Number.NEGATIVE_INFINITY
+  for (let i = 0; i < shape.points.length; i += 2) {
+    const x = shape.points[i] ?? 0
+    const y = shape.points[i + 1] ?? 0
+    minX = Math.min(minX, x - half)
+    minY = Math.min(minY, y - half)
+    maxX = Math.max(maxX, x + half)
+    maxY = Math.max(maxY, y + half)
+  }
+  if (!Number.isFinite(minX) || !Number.isFinite(minY) || !Number.isFinite(maxX) || !Number.isFinite(maxY)) return null
+  return { minX, minY, maxX, maxY }
+}
+
+// Paints the shape with the context's current stroke/fill style. Filled shapes are grown by
+// stroking their outline `grow` px wide on each side; brush strokes simply get wider.
+export function traceMaskShape(ctx: Canvas2DContext, shape: MaskShape, grow = 0) {
+  if (isMaskStroke(shape)) {
+    const pts = shape.points
+    if (pts.length < 4) return
+    ctx.lineWidth = shape.strokeWidth + grow * 2
+    ctx.beginPath()
+    ctx.moveTo(pts[0] ?? 0, pts[1] ?? 0)
+    for (let i = 2; i < pts.length; i += 2) {
+      ctx.lineTo(pts[i] ?? 0, pts[i + 1] ?? 0)
+    }
+    ctx.stroke()
+    return
+  }
+
+  ctx.beginPath()
+  if (shape.kind === 'rect') {
+    ctx.rect(shape.x, shape.y, shape.width, shape.height)
+  } else if (shape.kind === 'ellipse') {
+    ctx.ellipse(shape.x + shape.width / 2, shape.y + shape.height / 2, Math.abs(shape.width / 2), Math.abs(shape.height / 2), 0, 0, Math.PI * 2)
+  } else {
+    const pts = shape.points
+    if (pts.length < 6) return
+    ctx.moveTo(pts[0] ?? 0, pts[1] ?? 0)
+    for (let i = 2; i < pts.length; i += 2) {
+      ctx.lineTo(pts[i] ?? 0, pts[i + 1] ?? 0)
+    }
+  }
+  ctx.closePath()
+  ctx.fill()
+  if (grow > 0) {
+    ctx.lineWidth = grow * 2
+    ctx.stroke()
+  }
+}
+
+// Maps every coordinate through x * sx + dx / y * sy + dy; brush widths scale by `sw`.
+export function transformMaskShape(shape: MaskShape, sx: number, sy: number, dx: number, dy: number, sw: number): MaskShape {
+  if (shape.kind === 'rect' || shape.kind === 'ellipse') {
+    return { ...shape, x: shape.x * sx + dx, y: shape.y * sy + dy, width: shape.width * sx, height: shape.height * sy }
+  }
+  const points = shape.points.map((value, idx) => (idx % 2 === 0 ? value * sx + dx : value * sy + dy))
+  if (isMaskStroke(shape)) return { ...shape, points, strokeWidth: shape.strokeWidth * sw }
+  return { ...shape, points }
+}
+
+export function translateMaskShape(shape: MaskShape, dx: number, dy: number): MaskShape {
+  return transformMaskShape(shape, 1, 1, -dx, -dy, 1)
+}
+
+export function cloneMaskShape(shape: MaskShape): MaskShape {
+  return transformMaskShape(shape, 1, 1, 0, 0, 1)
+}
+
+export function hasAdditiveMask(shapes: MaskShape[]): boolean {
+  return shapes.some((shape) => !shape.subtract)
+}
+
+// Paints shapes in order: additive ones in white grown by `grow`, subtractive ones either in
+// `subtractColor` (opaque masks) or by clearing the canvas (alpha mattes).
+export function paintMaskShapes(ctx: Canvas2DContext, shapes: MaskShape[], grow = 0, subtractColor?: string) {
+  for (const shape of shapes) {
+    if (shape.subtract) {
+      const color = subtractColor ?? 'black'
+      ctx.globalCompositeOperation = subtractColor ? 'source-over' : 'destination-out'
+      ctx.strokeStyle = color
+      ctx.fillStyle = color
+      traceMaskShape(ctx, shape)
+    } else {
+      ctx.globalCompositeOperation = 'source-over'
+      ctx.strokeStyle = 'white'
+      ctx.fillStyle = 'white'
+      traceMaskShape(ctx, shape, grow)
+    }
+  }
+  ctx.globalCompositeOperation = 'source-over'
+}
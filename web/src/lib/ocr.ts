@@ -0,0 +1,119 @@
+import { createWorker, OEM, type Line, type Word, type Worker } from 'tesseract.js'
+
+export type OcrBoxKind = 'word' | 'line'
+
+export type OcrBox = {
+  id: string
+  kind: OcrBoxKind
+  // Indices of the paragraph and line the box belongs to; words share them with their line box.
+  paragraph: number
+  line: number
+  text: string
+  confidence: number
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export type OcrLanguage = 'kor' | 'eng'
+
+let workerPromise: Promise<Worker> | null = null
+let workerLangs = ''
+let progressListener: ((progress: number) => void) | null = null
+
+async function getWorker(langs: OcrLanguage[]): Promise<Worker> {
+  const key = langs.join('+')
+  if (workerPromise && workerLangs === key) return await workerPromise
+  if (workerPromise) await terminateOcrWorker()
+  workerLangs = key
+  workerPromise = createWorker(langs, OEM.LSTM_ONLY, {
+    logger: (msg) => {
+      if (msg.status === 'recognizing text') progressListener?.(msg.progress)
+    },
+  })
+  try {
+    return await workerPromise
+  } catch (e) {
+    workerPromise = null
+    workerLangs = ''
+    throw e
+  }
+}
+
+export async function terminateOcrWorker(): Promise<void> {
+  const pending = workerPromise
+  workerPromise = null
+  workerLangs = ''
+  if (!pending) return
+  const worker = await pending.catch(() => null)
+  await worker?.terminate().catch(() => undefined)
+}
+
+function toBox(kind: OcrBoxKind, index: number, paragraph: number, line: number, item: Word | Line): OcrBox | null {
+  const text = item.text.trim()
+  const width = item.bbox.x1 - item.bbox.x0
+  const height = item.bbox.y1 - item.bbox.y0
+  if (!text || width <= 0 || height <= 0) return null
+  return {
+    id: `${kind}-${index}`,
+    kind,
+    paragraph,
+    line,
+    text,
+    confidence: item.confidence,
+    x: item.bbox.x0,
+    y: item.bbox.y0,
+    width,
+    height,
+  }
+}
+
+// Runs OCR on a page image and returns word and line boxes in image pixel coordinates.
+// Boxes below `minConfidence` (0-100) are dropped; Tesseract reports many low-confidence hits on
+// textures and screentone.
+// With `rect`, only that region is recognized; box coordinates stay relative to the full image.
+export async function detectTextBoxes(
+  image: string | Blob,
+  opts: {
+    langs: OcrLanguage[]
+    rect?: { x: number; y: number; width: number; height: number }
+    minConfidence?: number
+    onProgress?: (progress: number) => void
+  },
+): Promise<OcrBox[]> {
+  const worker = await getWorker(opts.langs)
+  const minConfidence = opts.minConfidence ?? 40
+  progressListener = opts.onProgress ?? null
+  try {
+    const rectangle = opts.rect
+      ? { left: opts.rect.x, top: opts.rect.y, width: opts.rect.width, height: opts.rect.height }
+      : undefined
+    const result = await worker.recognize(image, rectangle ? { rectangle } : {}, { blocks: true })
+    const boxes: OcrBox[] = []
+    let wordIndex = 0
+    let lineIndex = 0
+    let paragraphIndex = 0
+    for (const block of result.data.blocks ?? []) {
+      for (const paragraph of block.paragraphs) {
+        for (const line of paragraph.lines) {
+          const words = line.words
+            .filter((word) => word.confidence >= minConfidence)
+            .map((word) => toBox('word', wordIndex++, paragraphIndex, lineIndex, word))
+            .filter((box): box is OcrBox => !!box)
+          if (words.length === 0) continue
+          const lineBox = toBox('line', lineIndex, paragraphIndex, lineIndex, line)
+          lineIndex += 1
+          if (lineBox) boxes.push(lineBox)
+          boxes.push(...words)
+        }
+        paragraphIndex += 1
+      }
+    }
+    return boxes
+  } catch (e) {
+    throw new Error(`ERR_OCR_FAILED:${e instanceof Error ? e.message : String(e)}`)
+  } finally {
+    progressListener = null
+  }
+}
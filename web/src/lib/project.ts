@@ -0,0 +1,341 @@
+import JSZip from 'jszip'
+import { dataUrlToBlob } from './download'
+import { type CustomFont, fontFileMime } from './fonts'
+import { getImageBlob, putImage } from './imageStore'
+import { DEFAULT_TEXT } from './textDefaults'
+import type { LayerGroup, MaskShape, PageAsset, TextFit, TextGradient, TextItem, TextShadow } from './types'
+
+export const PROJECT_EXTENSION = 'lamivi'
+export const PROJECT_SCHEMA_VERSION = 1
+
+const PROJECT_FORMAT = 'lamivi-project'
+const MANIFEST_PATH = 'project.json'
+
+// Editor settings saved alongside the pages. Values are opaque here; the app validates them on open.
+export type ProjectSettings = Record<string, string | number | boolean>
+
+type ProjectAssetEntry = {
+  id: string
+  name: string
+  width: number
+  height: number
+  // Paths inside the zip. `original` equals `image` when the page was never edited.
+  image: string
+  original: string
+  maskStrokes: MaskShape[]
+  groups: LayerGroup[]
+  texts: TextItem[]
+}
+
+type ProjectFontEntry = {
+  id: string
+  family: string
+  fileName: string
+  // Path inside the zip.
+  file: string
+}
+
+type ProjectManifest = {
+  format: typeof PROJECT_FORMAT
+  version: number
+  app: string
+  savedAt: number
+  activeId: string | null
+  settings: ProjectSettings
+  assets: ProjectAssetEntry[]
+  fonts: ProjectFontEntry[]
+}
+
+export type LoadedProject = {
+  assets: PageAsset[]
+  activeId: string | null
+  settings: ProjectSettings
+  // Unregistered; the caller registers them with the document.
+  fonts: CustomFont[]
+  savedAt: number
+  // Schema version the file was written with, before migration.
+  version: number
+}
+
+// Each step upgrades a manifest from version `n` to `n + 1`. Version 0 is the autosave payload
+// (`{ assets, activeId, ts }` with inline data URLs), so a pasted autosave opens as a project too.
+const MIGRATIONS: Record<number, (doc: Record<string, unknown>) => Record<string, unknown>> = {
+  0: (doc) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    app: 'autosave',
+    savedAt: typeof doc.ts === 'number' ? doc.ts : Date.now(),
+    activeId: doc.activeId ?? null,
+    settings: {},
+    assets: (Array.isArray(doc.assets) ? (doc.assets as Array<Partial<PageAsset> | null>) : [])
+      .filter((asset): asset is Partial<PageAsset> => !!asset && typeof asset === 'object')
+      .map((asset) => {
+        // Autosave payloads predate the image store and carry the page images inline.
+        const legacy = asset as Partial<PageAsset> & { baseDataUrl?: string; originalDataUrl?: string }
+        return { ...asset, image: legacy.baseDataUrl, original: legacy.originalDataUrl ?? legacy.baseDataUrl }
+      }),
+    fonts: [],
+  }),
+}
+
+const MIME_EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp' }
+
+function extensionMime(path: string): string {
+  const ext = path.slice(path.lastIndexOf('.') + 1).toLowerCase()
+  if (ext === 'jpg' || ext === 'jpeg') return 'image/jpeg'
+  if (ext === 'webp') return 'image/webp'
+  return 'image/png'
+}
+
+function addImage(zip: JSZip, imageId: string, path: string): string {
+  const blob = getImageBlob(imageId)
+  const fullPath = `${path}.${MIME_EXTENSIONS[blob.type.toLowerCase()] ?? 'png'}`
+  zip.file(fullPath, blob, { binary: true })
+  return fullPath
+}
+
+export async function serializeProject(opts: {
+  assets: PageAsset[]
+  activeId: string | null
+  settings: ProjectSettings
+  fonts: CustomFont[]
+  appVersion: string
+  onProgress?: (done: number, total: number) => void
+}): Promise<Blob> {
+  const zip = new JSZip()
+  const entries: ProjectAssetEntry[] = []
+  opts.assets.forEach((asset, idx) => {
+    const image = addImage(zip, asset.imageId, `images/${asset.id}/current`)
+    const original =
+      asset.originalImageId && asset.originalImageId !== asset.imageId
+        ? addImage(zip, asset.originalImageId, `images/${asset.id}/original`)
+        : image
+    entries.push({
+      id: asset.id,
+      name: asset.name,
+      width: asset.width,
+      height: asset.height,
+      image,
+      original,
+      maskStrokes: asset.maskStrokes,
+      groups: asset.groups,
+      texts: asset.texts,
+    })
+    opts.onProgress?.(idx + 1, opts.assets.length)
+  })
+  const fonts: ProjectFontEntry[] = opts.fonts.map((font) => {
+    const ext = font.fileName.slice(font.fileName.lastIndexOf('.') + 1).toLowerCase()
+    const file = `fonts/${font.id}.${ext}`
+    zip.file(file, font.blob, { binary: true })
+    return { id: font.id, family: font.family, fileName: font.fileName, file }
+  })
+  const manifest: ProjectManifest = {
+    format: PROJECT_FORMAT,
+    version: PROJECT_SCHEMA_VERSION,
+    app: opts.appVersion,
+    savedAt: Date.now(),
+    activeId: opts.activeId,
+    settings: opts.settings,
+    assets: entries,
+    fonts,
+  }
+  zip.file(MANIFEST_PATH, JSON.stringify(manifest, null, 2))
+  // Page images are already compressed; deflating them again only costs time.
+  return await zip.generateAsync({ type: 'blob', mimeType: 'application/zip', compression: 'STORE' })
+}
+
+function migrateManifest(raw: unknown): { manifest: ProjectManifest; version: number } {
+  if (!raw || typeof raw !== 'object') throw new Error('ERR_PROJECT_INVALID:project.json is not an object')
+  let doc = raw as Record<string, unknown>
+  const isAutosave = doc.format === undefined && Array.isArray(doc.assets)
+  if (!isAutosave && doc.format !== PROJECT_FORMAT) throw new Error('ERR_PROJECT_INVALID:unknown format')
+  const version = isAutosave ? 0 : typeof doc.version === 'number' ? doc.version : NaN
+  if (!Number.isInteger(version) || version < 0) throw new Error('ERR_PROJECT_INVALID:missing version')
+  if (version > PROJECT_SCHEMA_VERSION) throw new Error(`ERR_PROJECT_VERSION:${version}`)
+  for (let v = version; v < PROJECT_SCHEMA_VERSION; v += 1) {
+    const step = MIGRATIONS[v]
+    if (!step) throw new Error(`ERR_PROJECT_INVALID:no migration from version ${v}`)
+    doc = step(doc)
+  }
+  if (!Array.isArray(doc.assets)) throw new Error('ERR_PROJECT_INVALID:missing assets')
+  return { manifest: doc as unknown as ProjectManifest, version }
+}
+
+type Entry = Record<string, unknown>
+
+function isEntry(value: unknown): value is Entry {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function num(value: unknown, fallback: number): number {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback
+}
+
+function isNumberList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((n) => typeof n === 'number' && Number.isFinite(n))
+}
+
+// Project files may be edited by hand, so every layer is checked before the app renders it: entries
+// without their identifying fields are rejected, and missing or mistyped styling falls back to
+// defaults. Optional effects that are incomplete are dropped.
+function readMaskShape(raw: unknown, where: string): MaskShape {
+  if (!isEntry(raw) || typeof raw.id !== 'string') throw new Error(`ERR_PROJECT_INVALID:${where}`)
+  const subtract = raw.subtract === true ? { subtract: true } : {}
+  if (raw.kind === 'rect' || raw.kind === 'ellipse') {
+    return { id: raw.id, kind: raw.kind, x: num(raw.x, 0), y: num(raw.y, 0), width: num(raw.width, 0), height: num(raw.height, 0), ...subtract }
+  }
+  if (!isNumberList(raw.points)) throw new Error(`ERR_PROJECT_INVALID:${where}`)
+  if (raw.kind === 'polygon') return { id: raw.id, kind: 'polygon', points: raw.points, ...subtract }
+  if (raw.kind !== undefined && raw.kind !== 'stroke') throw new Error(`ERR_PROJECT_INVALID:${where}`)
+  return { id: raw.id, kind: 'stroke', points: raw.points, strokeWidth: num(raw.strokeWidth, 1), ...subtract }
+}
+
+function readGroup(raw: unknown, where: string): LayerGroup {
+  if (!isEntry(raw) || typeof raw.id !== 'string') throw new Error(`ERR_PROJECT_INVALID:${where}`)
+  return { id: raw.id, name: typeof raw.name === 'string' ? raw.name : raw.id, collapsed: raw.collapsed === true }
+}
+
+function readShadow(raw: unknown): TextShadow | undefined {
+  if (!isEntry(raw) || typeof raw.color !== 'string') return undefined
+  return { color: raw.color, blur: num(raw.blur, 0), offsetX: num(raw.offsetX, 0), offsetY: num(raw.offsetY, 0), opacity: num(raw.opacity, 1) }
+}
+
+function readGradient(raw: unknown): TextGradient | undefined {
+  if (!isEntry(raw) || (raw.kind !== 'linear' && raw.kind !== 'radial') || typeof raw.from !== 'string' || typeof raw.to !== 'string') return undefined
+  return { kind: raw.kind, from: raw.from, to: raw.to, angle: num(raw.angle, 0) }
+}
+
+function readFit(raw: unknown): TextFit | undefined {
+  if (!isEntry(raw) || (raw.mode !== 'shrink' && raw.mode !== 'grow')) return undefined
+  const box = [raw.x, raw.y, raw.width, raw.height, raw.minSize, raw.maxSize]
+  if (!isNumberList(box)) return undefined
+  const [x = 0, y = 0, width = 0, height = 0, minSize = 0, maxSize = 0] = box
+  return { mode: raw.mode, x, y, width, height, minSize, maxSize }
+}
+
+function readTextItem(raw: unknown, where: string): TextItem {
+  if (!isEntry(raw) || typeof raw.id !== 'string' || typeof raw.text !== 'string') throw new Error(`ERR_PROJECT_INVALID:${where}`)
+  const str = (value: unknown, fallback: string) => (typeof value === 'string' ? value : fallback)
+  const item: TextItem = {
+    id: raw.id,
+    x: num(raw.x, 0),
+    y: num(raw.y, 0),
+    text: raw.text,
+    fontFamily: str(raw.fontFamily, DEFAULT_TEXT.fontFamily),
+    fontSize: Math.max(1, num(raw.fontSize, DEFAULT_TEXT.fontSize)),
+    fill: str(raw.fill, DEFAULT_TEXT.fill),
+    fontWeight: num(raw.fontWeight, DEFAULT_TEXT.fontWeight),
+    fontStyle: raw.fontStyle === 'italic' || raw.fontStyle === 'normal' ? raw.fontStyle : DEFAULT_TEXT.fontStyle,
+    rotation: num(raw.rotation, DEFAULT_TEXT.rotation),
+    align: raw.align === 'left' || raw.align === 'center' || raw.align === 'right' ? raw.align : DEFAULT_TEXT.align,
+    visible: typeof raw.visible === 'boolean' ? raw.visible : DEFAULT_TEXT.visible,
+    locked: typeof raw.locked === 'boolean' ? raw.locked : DEFAULT_TEXT.locked,
+    opacity: num(raw.opacity, DEFAULT_TEXT.opacity),
+    groupId: str(raw.groupId, DEFAULT_TEXT.groupId),
+  }
+  if (typeof raw.outlineColor === 'string') item.outlineColor = raw.outlineColor
+  if (typeof raw.outlineWidth === 'number') item.outlineWidth = raw.outlineWidth
+  if (raw.outlineJoin === 'miter' || raw.outlineJoin === 'round' || raw.outlineJoin === 'bevel') item.outlineJoin = raw.outlineJoin
+  if (typeof raw.backgroundColor === 'string') item.backgroundColor = raw.backgroundColor
+  if (typeof raw.backgroundOpacity === 'number') item.backgroundOpacity = raw.backgroundOpacity
+  if (raw.writingMode === 'vertical') item.writingMode = 'vertical'
+  if (typeof raw.width === 'number' && raw.width > 0) item.width = raw.width
+  if (typeof raw.lineHeight === 'number' && raw.lineHeight > 0) item.lineHeight = raw.lineHeight
+  if (typeof raw.letterSpacing === 'number') item.letterSpacing = raw.letterSpacing
+  const gradient = readGradient(raw.gradient)
+  if (gradient) item.gradient = gradient
+  const shadow = readShadow(raw.shadow)
+  if (shadow) item.shadow = shadow
+  const fit = readFit(raw.fit)
+  if (fit) item.fit = fit
+  return item
+}
+
+function readList<T>(value: unknown, read: (raw: unknown, where: string) => T, where: string): T[] {
+  return Array.isArray(value) ? value.map((raw, idx) => read(raw, `${where} ${idx + 1}`)) : []
+}
+
+// Returns the image store id for a zip path (or, in migrated autosaves, an inline data URL).
+async function readImage(zip: JSZip | null, ref: unknown, cache: Map<string, string>): Promise<string> {
+  if (typeof ref !== 'string' || !ref) throw new Error('ERR_PROJECT_INVALID:missing image path')
+  const cached = cache.get(ref)
+  if (cached) return cached
+  let blob: Blob
+  if (ref.startsWith('data:')) {
+    blob = await dataUrlToBlob(ref).catch(() => {
+      throw new Error('ERR_PROJECT_INVALID:image is not a data URL')
+    })
+  } else {
+    const file = zip?.file(ref)
+    if (!file) throw new Error(`ERR_PROJECT_INVALID:missing ${ref}`)
+    // Zip entries carry no mime type; the extension written on save supplies it.
+    blob = new Blob([await file.async('arraybuffer')], { type: extensionMime(ref) })
+  }
+  const id = putImage(blob)
+  cache.set(ref, id)
+  return id
+}
+
+// Accepts a .lamivi zip or a bare project.json (including a copied autosave payload).
+export async function parseProject(file: Blob, onProgress?: (done: number, total: number) => void): Promise<LoadedProject> {
+  let zip: JSZip | null = null
+  let rawManifest: unknown
+  try {
+    const head = new Uint8Array(await file.slice(0, 2).arrayBuffer())
+    if (head[0] === 0x50 && head[1] === 0x4b) {
+      zip = await JSZip.loadAsync(file)
+      const manifestFile = zip.file(MANIFEST_PATH)
+      if (!manifestFile) throw new Error(`ERR_PROJECT_INVALID:missing ${MANIFEST_PATH}`)
+      rawManifest = JSON.parse(await manifestFile.async('string'))
+    } else {
+      rawManifest = JSON.parse(await file.text())
+    }
+  } catch (e) {
+    if (e instanceof Error && e.message.startsWith('ERR_PROJECT_')) throw e
+    throw new Error(`ERR_PROJECT_INVALID:${e instanceof Error ? e.message : String(e)}`)
+  }
+
+  const { manifest, version } = migrateManifest(rawManifest)
+  const cache = new Map<string, string>()
+  const assets: PageAsset[] = []
+  for (const [idx, entry] of manifest.assets.entries()) {
+    if (!entry || typeof entry.id !== 'string') throw new Error(`ERR_PROJECT_INVALID:asset ${idx + 1}`)
+    if (!zip && !String(entry.image ?? '').startsWith('data:')) throw new Error(`ERR_PROJECT_INVALID:asset ${idx + 1} image`)
+    const imageId = await readImage(zip, entry.image, cache)
+    const originalImageId = await readImage(zip, entry.original ?? entry.image, cache)
+    assets.push({
+      id: entry.id,
+      name: typeof entry.name === 'string' ? entry.name : entry.id,
+      width: Number(entry.width) || 1,
+      height: Number(entry.height) || 1,
+      imageId,
+      originalImageId,
+      maskStrokes: readList(entry.maskStrokes, readMaskShape, `asset ${idx + 1} mask`),
+      groups: readList(entry.groups, readGroup, `asset ${idx + 1} group`),
+      texts: readList(entry.texts, readTextItem, `asset ${idx + 1} text`),
+    })
+    onProgress?.(idx + 1, manifest.assets.length)
+  }
+  if (assets.length === 0) throw new Error('ERR_PROJECT_INVALID:no pages')
+  const fonts: CustomFont[] = []
+  for (const entry of Array.isArray(manifest.fonts) ? manifest.fonts : []) {
+    if (!entry || typeof entry.family !== 'string' || typeof entry.file !== 'string') throw new Error('ERR_PROJECT_INVALID:font entry')
+    const file = zip?.file(entry.file)
+    if (!file) throw new Error(`ERR_PROJECT_INVALID:missing ${entry.file}`)
+    const fileName = typeof entry.fileName === 'string' ? entry.fileName : entry.file
+    fonts.push({
+      id: typeof entry.id === 'string' ? entry.id : entry.file,
+      family: entry.family,
+      fileName,
+      blob: new Blob([await file.async('arraybuffer')], { type: fontFileMime(fileName) }),
+    })
+  }
+  return {
+    assets,
+    activeId: assets.some((a) => a.id === manifest.activeId) ? manifest.activeId : assets[0]!.id,
+    settings: manifest.settings && typeof manifest.settings === 'object' ? manifest.settings : {},
+    fonts,
+    savedAt: typeof manifest.savedAt === 'number' ? manifest.savedAt : Date.now(),
+    version,
+  }
+}
@@ -0,0 +1,20 @@
+import type { TextItem } from './types'
+
+// Settings for a new text layer, and the fallbacks for fields a saved project leaves out.
+export const DEFAULT_TEXT: Omit<TextItem, 'id' | 'x' | 'y'> = {
+  text: 'Text',
+  fontFamily: 'IBM Plex Sans',
+  fontSize: 42,
+  fill: '#111111',
+  outlineColor: '#ffffff',
+  backgroundColor: '#ffffff',
+  backgroundOpacity: 0.2,
+  fontWeight: 500,
+  fontStyle: 'normal',
+  rotation: 0,
+  align: 'left',
+  visible: true,
+  locked: false,
+  opacity: 1,
+  groupId: 'group-default',
+}
@@ -0,0 +1,86 @@
+// Line breaking for fixed-width text boxes. The stage, raster export and PPTX all draw the lines
+// computed here, so a box wraps the same way everywhere instead of depending on each renderer.
+//
+// Korean breaks only between words (keep-all), Chinese and Japanese may break between any two
+// characters, and closing/opening punctuation never starts/ends a line.
+
+export type TextWrapOptions = {
+  font: string
+  letterSpacing: number
+  maxWidth: number
+}
+
+const BREAKABLE_CJK = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]/u
+const NO_LINE_START = new Set([...'.,!?;:)]}%、。，．！？；：）］｝」』】〉》〕ー…‥・〜～ぁぃぅぇぉっゃゅょゎァィゥェォッャュョヮ'])
+const NO_LINE_END = new Set([...'([{「『（［｛【〈《〔'])
+
+let measureCanvas: HTMLCanvasElement | null = null
+
+// Width as Konva.Text measures it: the canvas advance plus the spacing after every character.
+export function measureTextWidth(text: string, font: string, letterSpacing = 0): number {
+  measureCanvas ??= document.createElement('canvas')
+  const ctx = measureCanvas.getContext('2d')
+  if (!ctx) return text.length * 10 + letterSpacing * text.length
+  ctx.font = font
+  return ctx.measureText(text).width + letterSpacing * text.length
+}
+
+function isSpace(ch: string): boolean {
+  return /\s/u.test(ch)
+}
+
+// Splits a paragraph into the smallest pieces a line may break between. Trailing spaces stay on
+// the piece before them so they can be dropped at the end of a line.
+function splitBreakUnits(paragraph: string): string[] {
+  const units: string[] = []
+  let unit = ''
+  let prev = ''
+  for (const ch of paragraph) {
+    const canBreak =
+      unit !== '' &&
+      !isSpace(ch) &&
+      !NO_LINE_START.has(ch) &&
+      !NO_LINE_END.has(prev) &&
+      (isSpace(prev) || BREAKABLE_CJK.test(ch) || BREAKABLE_CJK.test(prev))
+    if (canBreak) {
+      units.push(unit)
+      unit = ''
+    }
+    unit += ch
+    prev = ch
+  }
+  if (unit) units.push(unit)
+  return units
+}
+
+export function wrapTextLines(text: string, opts: TextWrapOptions): string[] {
+  const fits = (value: string) => measureTextWidth(value.trimEnd(), opts.font, opts.letterSpacing) <= opts.maxWidth
+  const lines: string[] = []
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const unit of splitBreakUnits(paragraph)) {
+      if (fits(line + unit)) {
+        line += unit
+        continue
+      }
+      if (line) {
+        lines.push(line.trimEnd())
+        line = ''
+      }
+      if (fits(unit)) {
+        line = unit
+        continue
+      }
+      // A single word wider than the box: break it wherever it overflows.
+      for (const ch of unit) {
+        if (line && !fits(line + ch)) {
+          lines.push(line.trimEnd())
+          line = ''
+        }
+        line += ch
+      }
+    }
+    lines.push(line.trimEnd())
+  }
+  return lines
+}
@@ -0,0 +1,191 @@
+import type { PageAsset } from './types'
+
+export type TranslationFormat = 'csv' | 'json' | 'xliff'
+
+export type TranslationEntry = {
+  assetId: string
+  assetName: string
+  textId: string
+  group: string
+  x: number
+  y: number
+  text: string
+}
+
+// A row read back from a translated file. `assetId` is only a hint: text ids are unique per project.
+export type TranslationUpdate = {
+  textId: string
+  assetId: string | null
+  text: string
+}
+
+const XLIFF_NS = 'urn:oasis:names:tc:xliff:document:1.2'
+const CSV_COLUMNS = ['asset_name', 'asset_id', 'text_id', 'group', 'x', 'y', 'text', 'translation'] as const
+
+export function collectTranslationEntries(assets: PageAsset[]): TranslationEntry[] {
+  return assets.flatMap((asset) =>
+    asset.texts.map((text) => ({
+      assetId: asset.id,
+      assetName: asset.name,
+      textId: text.id,
+      group: asset.groups.find((group) => group.id === text.groupId)?.name ?? '',
+      x: Math.round(text.x),
+      y: Math.round(text.y),
+      text: text.text,
+    })),
+  )
+}
+
+function csvCell(value: string | number): string {
+  const raw = String(value)
+  return /[",\r\n]/.test(raw) ? `"${raw.replace(/"/g, '""')}"` : raw
+}
+
+function xmlEscape(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function toCsv(entries: TranslationEntry[]): string {
+  const lines = [CSV_COLUMNS.join(',')]
+  for (const e of entries) {
+    lines.push([e.assetName, e.assetId, e.textId, e.group, e.x, e.y, e.text, ''].map(csvCell).join(','))
+  }
+  // BOM so spreadsheet apps detect UTF-8 (Korean text otherwise opens garbled in Excel).
+  return `\uFEFF${lines.join('\r\n')}\r\n`
+}
+
+function toJson(entries: TranslationEntry[]): string {
+  return JSON.stringify({ format: 'lamivi-translation', version: 1, texts: entries }, null, 2)
+}
+
+function toXliff(entries: TranslationEntry[], sourceLang: string): string {
+  const byAsset = new Map<string, TranslationEntry[]>()
+  for (const entry of entries) {
+    byAsset.set(entry.assetId, [...(byAsset.get(entry.assetId) ?? []), entry])
+  }
+  const files = [...byAsset.entries()].map(([assetId, units]) => {
+    const body = units
+      .map(
+        (u) =>
+          `      <trans-unit id="${xmlEscape(u.textId)}" resname="${xmlEscape(assetId)}" xml:space="preserve">\n` +
+          `        <source>${xmlEscape(u.text)}</source>\n` +
+          `        <target>${xmlEscape(u.text)}</target>\n` +
+          `        <note>${xmlEscape(`group=${u.group}; x=${u.x}; y=${u.y}`)}</note>\n` +
+          '      </trans-unit>',
+      )
+      .join('\n')
+    const name = units[0]?.assetName ?? assetId
+    return `  <file original="${xmlEscape(name)}" source-language="${xmlEscape(sourceLang)}" datatype="plaintext">\n    <body>\n${body}\n    </body>\n  </file>`
+  })
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<xliff version="1.2" xmlns="${XLIFF_NS}">\n${files.join('\n')}\n</xliff>\n`
+}
+
+export function serializeTranslations(entries: TranslationEntry[], format: TranslationFormat, sourceLang: string): Blob {
+  if (format === 'csv') return new Blob([toCsv(entries)], { type: 'text/csv;charset=utf-8' })
+  if (format === 'json') return new Blob([toJson(entries)], { type: 'application/json' })
+  return new Blob([toXliff(entries, sourceLang)], { type: 'application/x-xliff+xml' })
+}
+
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const src = content.replace(/^\uFEFF/, '')
+  for (let i = 0; i < src.length; i += 1) {
+    const ch = src[i]
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        cell += '"'
+        i += 1
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        cell += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && src[i + 1] === '\n') i += 1
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += ch
+    }
+  }
+  if (cell || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ''))
+}
+
+// Translators may fill the `translation` column or overwrite `text` in place; a non-empty
+// translation wins.
+function fromCsv(content: string): TranslationUpdate[] {
+  const [header, ...rows] = parseCsvRows(content)
+  if (!header) return []
+  const col = (name: string) => header.findIndex((h) => h.trim().toLowerCase() === name)
+  const idCol = col('text_id')
+  const assetCol = col('asset_id')
+  const textCol = col('text')
+  const translationCol = col('translation')
+  if (idCol < 0 || (textCol < 0 && translationCol < 0)) throw new Error('ERR_TRANSLATION_PARSE:missing text_id/text columns')
+  return rows.map((r) => {
+    const translated = translationCol >= 0 ? r[translationCol] ?? '' : ''
+    return {
+      textId: (r[idCol] ?? '').trim(),
+      assetId: assetCol >= 0 ? (r[assetCol] ?? '').trim() || null : null,
+      text: translated !== '' ? translated : r[textCol] ?? '',
+    }
+  })
+}
+
+function fromJson(content: string): TranslationUpdate[] {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(content)
+  } catch {
+    throw new Error('ERR_TRANSLATION_PARSE:invalid JSON')
+  }
+  const list = Array.isArray(parsed) ? parsed : (parsed as { texts?: unknown } | null)?.texts
+  if (!Array.isArray(list)) throw new Error('ERR_TRANSLATION_PARSE:missing texts array')
+  return (list as Array<Partial<TranslationEntry> & { translation?: unknown } | null>)
+    .filter((item): item is Partial<TranslationEntry> & { translation?: unknown } => !!item && typeof item === 'object')
+    .map((item) => ({
+      textId: typeof item.textId === 'string' ? item.textId : '',
+      assetId: typeof item.assetId === 'string' ? item.assetId : null,
+      text: typeof item.translation === 'string' && item.translation !== '' ? item.translation : typeof item.text === 'string' ? item.text : '',
+    }))
+}
+
+function fromXliff(content: string): TranslationUpdate[] {
+  const doc = new DOMParser().parseFromString(content, 'application/xml')
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('ERR_TRANSLATION_PARSE:invalid XML')
+  // Some tools drop the namespace on re-export, so fall back to plain tag lookup.
+  const namespaced = Array.from(doc.getElementsByTagNameNS(XLIFF_NS, 'trans-unit'))
+  const units = namespaced.length > 0 ? namespaced : Array.from(doc.getElementsByTagName('trans-unit'))
+  return units.map((unit) => {
+    const pick = (tag: string) => unit.getElementsByTagNameNS(XLIFF_NS, tag)[0] ?? unit.getElementsByTagName(tag)[0]
+    // Units without a <target> keep their source text, so untranslated units are a no-op.
+    const target = pick('target') ?? pick('source')
+    return {
+      textId: unit.getAttribute('id') ?? '',
+      assetId: unit.getAttribute('resname'),
+      text: target?.textContent ?? '',
+    }
+  })
+}
+
+export function parseTranslations(fileName: string, content: string): TranslationUpdate[] {
+  const lower = fileName.toLowerCase()
+  if (lower.endsWith('.csv')) return fromCsv(content)
+  if (lower.endsWith('.json')) return fromJson(content)
+  if (lower.endsWith('.xlf') || lower.endsWith('.xliff') || lower.endsWith('.xml')) return fromXliff(content)
+  throw new Error(`ERR_TRANSLATION_FORMAT:${fileName}`)
+}
@@ -2,12 +2,91 @@ export type Tool = 'restore' | 'eraser' | 'text' | 'crop' | 'move'
 
 export type MaskStroke = {
   id: string
+  // Absent on masks saved before shape tools existed.
+  kind?: 'stroke'
   points: number[]
   strokeWidth: number
+  // Removes this area from the staged mask instead of adding to it.
+  subtract?: boolean
 }
 
+export type MaskRect = {
+  id: string
+  kind: 'rect'
+  x: number
+  y: number
+  width: number
+  height: number
+  subtract?: boolean
+}
+
+// Axis-aligned ellipse inscribed in the given box.
+export type MaskEllipse = {
+  id: string
+  kind: 'ellipse'
+  x: number
+  y: number
+  width: number
+  height: number
+  subtract?: boolean
+}
+
+// Closed filled outline; produced by both the lasso and the click-polygon tools.
+export type MaskPolygon = {
+  id: string
+  kind: 'polygon'
+  points: number[]
+  subtract?: boolean
+}
+
+export type MaskShape = MaskStroke | MaskRect | MaskEllipse | MaskPolygon
+
+export type MaskShapeTool = 'brush' | 'rect' | 'ellipse' | 'lasso' | 'polygon'
+
+// 'auto' applies each shape on release; 'manual' stages shapes until the user runs them together.
+export type MaskApplyMode = 'auto' | 'manual'
+
 export type TextAlign = 'left' | 'center' | 'right'
 
+// Vertical text runs in top-to-bottom columns from right to left; `align` then places each column
+// at the top, middle or bottom.
+export type TextWritingMode = 'horizontal' | 'vertical'
+
+export type TextOutlineJoin = 'miter' | 'round' | 'bevel'
+
+// Offsets and blur in page pixels.
+export type TextShadow = {
+  color: string
+  blur: number
+  offsetX: number
+  offsetY: number
+  opacity: number
+}
+
+// Spans the text box. `angle` (degrees clockwise from left-to-right) only applies to linear
+// gradients; radial ones run from the box centre to its corners.
+export type TextGradient = {
+  kind: 'linear' | 'radial'
+  from: string
+  to: string
+  angle: number
+}
+
+// 'shrink' only reduces the font size, down to minSize, while the text overflows its box; 'grow' only
+// increases it, up to maxSize, while the text still fits.
+export type TextFitMode = 'shrink' | 'grow'
+
+// Box a text item is sized into, in page pixels. Horizontal text wraps to its width.
+export type TextFit = {
+  mode: TextFitMode
+  x: number
+  y: number
+  width: number
+  height: number
+  minSize: number
+  maxSize: number
+}
+
 export type TextItem = {
   id: string
   x: number
@@ -16,13 +95,30 @@ export type TextItem = {
   fontFamily: string
   fontSize: number
   fill: string
+  // Replaces `fill` on the stage and in image/PDF exports. PPTX text has no gradient fill, so it is
+  // exported in `from` and the export log notes it.
+  gradient?: TextGradient
   outlineColor?: string
+  // Stroke width in page pixels (default 1.2). When set, the fill is drawn over the inner half;
+  // without it the stroke is drawn over the fill, as before outline widths existed.
+  outlineWidth?: number
+  outlineJoin?: TextOutlineJoin
+  shadow?: TextShadow
   backgroundColor?: string
   backgroundOpacity?: number
   fontWeight: number
   fontStyle: 'normal' | 'italic'
   rotation: number
   align: TextAlign
+  writingMode?: TextWritingMode
+  // Box width in page pixels; lines wrap to it. Absent means the box grows with the longest line.
+  width?: number
+  // Multiple of the font size (default 1).
+  lineHeight?: number
+  // Extra pixels after each character (default 0).
+  letterSpacing?: number
+  // When set, fontSize and position follow from fitting the text into this box.
+  fit?: TextFit
   visible: boolean
   locked: boolean
   opacity: number
@@ -46,8 +142,11 @@ export type PageAsset = {
   name: string
   width: number
   height: number
-  baseDataUrl: string
-  maskStrokes: MaskStroke[]
+  // Ids into the image store (lib/imageStore).
+  imageId: string
+  // Page as first imported, kept for project files; absent on assets restored from older autosaves.
+  originalImageId?: string
+  maskStrokes: MaskShape[]
   groups: LayerGroup[]
   texts: TextItem[]
 }
@@ -0,0 +1,192 @@
+import type { Context } from 'konva/lib/Context'
+import type { Shape } from 'konva/lib/Shape'
+import type { Vector2d } from 'konva/lib/types'
+import { measureTextWidth } from './textLayout'
+import type { TextAlign } from './types'
+
+// Top-to-bottom columns, laid out right to left. CJK characters stay upright; Latin runs and
+// brackets/dashes are turned 90° clockwise, and small CJK punctuation moves to the upper right of
+// its cell, as in printed vertical lettering.
+
+export type VerticalGlyph = {
+  text: string
+  // Centre of the glyph's cell, relative to the box's top-left corner.
+  x: number
+  y: number
+  rotate: boolean
+  corner: boolean
+}
+
+export type VerticalLayout = {
+  width: number
+  height: number
+  glyphs: VerticalGlyph[]
+}
+
+type GlyphKind = 'upright' | 'sideways' | 'corner' | 'space'
+
+// Default column pitch relative to the font size, used when the item sets no line height.
+export const VERTICAL_COLUMN_PITCH = 1.3
+// How far corner punctuation moves towards the upper right, relative to the font size.
+const CORNER_SHIFT = 0.55
+
+const CJK_CHAR = /[\p{Script=Hangul}\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\u3000-\u303f\u3200-\u33ff\uff00-\uffef]/u
+// Full-width characters whose vertical forms are the horizontal ones turned sideways.
+const ROTATED_CJK = new Set([...'「」『』（）【】〔〕〈〉《》［］｛｝〖〗ー—―–…‥〜～＝｜'])
+const CORNER_CJK = new Set([...'、。，．'])
+const CORNER_ASCII = new Set([...',.'])
+
+function classify(ch: string, prev: GlyphKind | null): GlyphKind {
+  if (/\s/u.test(ch)) return 'space'
+  if (CORNER_CJK.has(ch)) return 'corner'
+  if (ROTATED_CJK.has(ch)) return 'sideways'
+  if (CJK_CHAR.test(ch)) return 'upright'
+  // A period or comma right after Hangul/Kanji is sentence punctuation; inside a Latin run it is
+  // part of the word (e.g. "1.5") and turns with it.
+  if (CORNER_ASCII.has(ch) && prev !== 'sideways') return 'corner'
+  if (ch === '!' || ch === '?') return 'upright'
+  return 'sideways'
+}
+
+type Segment = { text: string; kind: GlyphKind }
+
+function segmentColumn(column: string): Segment[] {
+  const segments: Segment[] = []
+  let prev: GlyphKind | null = null
+  for (const ch of column) {
+    const kind = classify(ch, prev)
+    const last = segments[segments.length - 1]
+    // Latin words stay together so they keep their kerning when turned.
+    if (kind === 'sideways' && last?.kind === 'sideways' && !ROTATED_CJK.has(ch) && !ROTATED_CJK.has(last.text.slice(-1))) {
+      last.text += ch
+    } else {
+      segments.push({ text: ch, kind })
+    }
+    prev = kind
+  }
+  return segments
+}
+
+// `align` positions each column along its length: left is the top, right the bottom. `lineHeight`
+// is the column pitch and `letterSpacing` the extra advance after each character.
+export function layoutVerticalText(
+  text: string,
+  opts: { font: string; fontSize: number; align: TextAlign; lineHeight?: number; letterSpacing?: number },
+): VerticalLayout {
+  const { fontSize } = opts
+  const letterSpacing = opts.letterSpacing ?? 0
+  const pitch = fontSize * (opts.lineHeight ?? VERTICAL_COLUMN_PITCH)
+  const columns = text.split(/\r?\n/).map((column) => {
+    let length = 0
+    const cells = segmentColumn(column).map((segment) => {
+      const advance =
+        segment.kind === 'sideways' || segment.kind === 'space'
+          ? measureTextWidth(segment.text, opts.font, letterSpacing)
+          : fontSize + letterSpacing
+      const cell = { segment, start: length, advance }
+      length += advance
+      return cell
+    })
+    return { cells, length }
+  })
+
+  const width = Math.max(1, columns.length) * pitch
+  const height = Math.max(fontSize, ...columns.map((column) => column.length))
+  const glyphs: VerticalGlyph[] = []
+  columns.forEach((column, idx) => {
+    const x = width - pitch * (idx + 0.5)
+    const offset = opts.align === 'center' ? (height - column.length) / 2 : opts.align === 'right' ? height - column.length : 0
+    for (const cell of column.cells) {
+      if (cell.segment.kind === 'space') continue
+      glyphs.push({
+        text: cell.segment.text,
+        x,
+        y: offset + cell.start + cell.advance / 2,
+        rotate: cell.segment.kind === 'sideways',
+        corner: cell.segment.kind === 'corner',
+      })
+    }
+  })
+  return { width, height, glyphs }
+}
+
+// Gradients are built in the coordinates current when a glyph is filled, which are the glyph's.
+// Mapping the shape's box-space gradient into them keeps one gradient across the whole text.
+function glyphGradient(context: Context, shape: Shape, glyph: VerticalGlyph, fontSize: number): CanvasGradient | null {
+  const toGlyph = (point: Vector2d): Vector2d => {
+    let x = point.x - glyph.x
+    let y = point.y - glyph.y
+    if (glyph.rotate) [x, y] = [y, -x]
+    if (glyph.corner) {
+      x -= fontSize * CORNER_SHIFT
+      y += fontSize * CORNER_SHIFT
+    }
+    return { x, y }
+  }
+  const withStops = (gradient: CanvasGradient, stops: Array<number | string>) => {
+    for (let i = 0; i + 1 < stops.length; i += 2) gradient.addColorStop(Number(stops[i]), String(stops[i + 1]))
+    return gradient
+  }
+  const priority = shape.fillPriority()
+  if (priority === 'linear-gradient') {
+    const stops = shape.fillLinearGradientColorStops()
+    if (!stops) return null
+    const start = toGlyph(shape.fillLinearGradientStartPoint())
+    const end = toGlyph(shape.fillLinearGradientEndPoint())
+    return withStops(context.createLinearGradient(start.x, start.y, end.x, end.y), stops)
+  }
+  if (priority === 'radial-gradient') {
+    const stops = shape.fillRadialGradientColorStops()
+    if (!stops) return null
+    const start = toGlyph(shape.fillRadialGradientStartPoint())
+    const end = toGlyph(shape.fillRadialGradientEndPoint())
+    return withStops(
+      context.createRadialGradient(start.x, start.y, shape.fillRadialGradientStartRadius(), end.x, end.y, shape.fillRadialGradientEndRadius()),
+      stops,
+    )
+  }
+  return null
+}
+
+// Scene function for the Konva.Shape of a vertical item, sized to the layout. It paints each glyph
+// from the shape's fill and stroke attributes in the same order Konva.Text would; Konva applies the
+// shadow, opacity and line join around it.
+export function drawVerticalText(context: Context, shape: Shape, layout: VerticalLayout, font: string, fontSize: number) {
+  const fill = shape.hasFill()
+  const stroke = shape.hasStroke()
+  context.setAttr('font', font)
+  context.setAttr('textAlign', 'center')
+  context.setAttr('textBaseline', 'middle')
+  if (stroke) {
+    context.setAttr('strokeStyle', shape.stroke())
+    context.setAttr('lineWidth', shape.strokeWidth())
+    context.setAttr('miterLimit', 2)
+  }
+  for (const glyph of layout.glyphs) {
+    context.save()
+    context.translate(glyph.x, glyph.y)
+    if (glyph.rotate) context.rotate(Math.PI / 2)
+    if (glyph.corner) context.translate(fontSize * CORNER_SHIFT, -fontSize * CORNER_SHIFT)
+    const paintFill = () => {
+      if (!fill) return
+      context.setAttr('fillStyle', glyphGradient(context, shape, glyph, fontSize) ?? shape.fill())
+      context.fillText(glyph.text, 0, 0)
+    }
+    if (shape.fillAfterStrokeEnabled()) {
+      if (stroke) context.strokeText(glyph.text, 0, 0)
+      paintFill()
+    } else {
+      paintFill()
+      if (stroke) context.strokeText(glyph.text, 0, 0)
+    }
+    context.restore()
+  }
+}
+
+// Hit function for the same shape: the whole layout box, as Konva.Text hits its box.
+export function hitVerticalText(context: Context, shape: Shape) {
+  context.beginPath()
+  context.rect(0, 0, shape.width(), shape.height())
+  context.closePath()
+  context.fillStrokeShape(shape)
+}